@@ -1,164 +1,94 @@
-import React, { useEffect, useState, ChangeEvent, useRef } from 'react'
+import React, { useEffect, useMemo, useState, ChangeEvent, useRef } from 'react'
 import './App.css'
 import JSZip from 'jszip'
 import { saveAs } from 'file-saver'
-
-type Platform = 'adobe' | 'freepik' | 'shutterstock' | 'general' | 'vecteezy'
-type Mode = 'metadata' | 'prompt'
-type FileStatus = 'pending' | 'generating' | 'success' | 'failed'
-
-interface FileItem {
-  id: string
-  file: File
-  previewUrl?: string
-  title: string
-  keywords: string
-  description: string
-  status: FileStatus
-  error?: string
-}
-
-/** ----- Title cleaner ----- */
-function normalizeTitle(raw: string): string {
-  let text = raw
-    .replace(/[0-9#_=+*{}\[\];:<>/\\|~`"“”'’.,!?()-]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim()
-    .toLowerCase()
-
-  if (!text) return ''
-
-  const words = text.split(' ')
-  const unique: string[] = []
-  const seen = new Set<string>()
-
-  for (const w of words) {
-    if (!w) continue
-    if (!seen.has(w)) {
-      seen.add(w)
-      unique.push(w)
-    }
-  }
-
-  const cleaned = unique.join(' ')
-  return cleaned.charAt(0).toUpperCase() + cleaned.slice(1)
-}
-
-/** ----- Keyword cleaner: সব keyword এক শব্দ করা + ডুপ্লিকেট রিমুভ ----- */
-function autoCleanKeywords(
-  raw: string,
-  autoRemoveDupKeywords: boolean,
-  bulkKeywordExtra: string,
-): string {
-  const base = raw + (bulkKeywordExtra ? ',' + bulkKeywordExtra : '')
-
-  let tokens = base
-    .toLowerCase()
-    .split(/[,;\n]/)
-    .map((t) => t.trim())
-    .filter(Boolean)
-    // multi-word phrase → শুধু প্রথম শব্দ
-    .map((t) => t.split(/\s+/)[0])
-    .filter(Boolean)
-
-  if (autoRemoveDupKeywords) {
-    const unique: string[] = []
-    const seen = new Set<string>()
-    for (const t of tokens) {
-      if (!seen.has(t)) {
-        seen.add(t)
-        unique.push(t)
-      }
-    }
-    tokens = unique
-  }
-
-  return tokens.join(', ')
-}
-
-/** ----- base + bulk keyword merge + padding to exact count ----- */
-function buildKeywords(
-  baseKeywords: string,
-  bulkKeywordText: string,
-  autoRemoveDupKeywords: boolean,
-  targetCount: number,
-): string {
-  // base + bulk একসাথে ক্লিন করি
-  let combined = autoCleanKeywords(
-    baseKeywords,
-    autoRemoveDupKeywords,
-    bulkKeywordText || '',
-  )
-    .split(',')
-    .map((t) => t.trim())
-    .filter(Boolean)
-
-  // শুধু bulk keyword আলাদা করে parse করি – যাতে সবসময় আগে থাকে
-  let bulkTokens: string[] = []
-  if (bulkKeywordText && bulkKeywordText.trim()) {
-    bulkTokens = autoCleanKeywords(bulkKeywordText, autoRemoveDupKeywords, '')
-      .split(',')
-      .map((t) => t.trim())
-      .filter(Boolean)
-  }
-
-  if (bulkTokens.length) {
-    const reordered: string[] = []
-    const seen = new Set<string>()
-
-    for (const word of bulkTokens) {
-      if (!seen.has(word)) {
-        reordered.push(word)
-        seen.add(word)
-      }
-    }
-
-    for (const t of combined) {
-      if (!seen.has(t)) {
-        reordered.push(t)
-        seen.add(t)
-      }
-    }
-
-    combined = reordered
-  }
-
-  const fillerPool = [
-    'vector',
-    'illustration',
-    'design',
-    'art',
-    'graphic',
-    'symbol',
-    'icon',
-    'minimal',
-    'modern',
-    'abstract',
-    'background',
-    'template',
-    'creative',
-    'digital',
-    'silhouette',
-    'pattern',
-    'shape',
-    'line',
-    'curve',
-    'poster',
-    'print',
-    'stock',
-    'commercial',
-    'concept',
-  ]
-
-  for (const word of fillerPool) {
-    if (combined.length >= targetCount) break
-    if (!combined.includes(word)) {
-      combined.push(word)
-    }
-  }
-
-  return combined.slice(0, targetCount).join(', ')
-}
+import type {
+  EditableField,
+  FileFlags,
+  FileItem,
+  MetadataVersion,
+  ImportedHandling,
+  KeywordPolicy,
+  MediaKind,
+  Mode,
+  PaddingMode,
+  Platform,
+  SimilarHandling,
+} from './types'
+import {
+  BUILT_IN_BLOCKLIST,
+  BUILT_IN_BLOCKLIST_TEXT,
+  filterBlockedTerms,
+  parseBlocklist,
+} from './blocklist'
+import { CATEGORY_TAXONOMIES, describeCategoryOptions, matchCategories } from './categories'
+import {
+  buildPlatformCsv,
+  buildPromptsCsv,
+  buildPromptsTxt,
+  PLATFORM_EXPORTERS,
+} from './exporters'
+import { BooleanFlag, DEFAULT_FILE_FLAGS, FLAG_LABELS } from './flags'
+import {
+  extractEmbeddedPreview,
+  hasPreviewRaster,
+  isEpsOrAi,
+  pairVectorPreviews,
+} from './vectors'
+import {
+  classifyError,
+  describeError,
+  ERROR_KIND_LABELS,
+  ErrorKind,
+  GenerationError,
+  isTransient,
+} from './errors'
+import { createKeyManager, KeyHealth } from './keyManager'
+import { createRateLimiter, GenerationStoppedError, runPool } from './pool'
+import {
+  GEMINI_MODELS,
+  LOCAL_KEY,
+  parseModelJson,
+  PROVIDERS,
+  ProviderConfig,
+  ProviderId,
+  RequestPart,
+} from './providers'
+import { splitKeywords, tagFile } from './embedMetadata'
+import { readExistingMetadata } from './readMetadata'
+import { applyImport, ImportPlan, planImport, readImportFiles } from './importCsv'
+import {
+  loadPresets,
+  parsePresetsJson,
+  presetsToJson,
+  savePresets,
+  SettingsPreset,
+  upsertPreset,
+} from './presets'
+import { clearSession, loadSession, saveSession, SessionSettings, SessionSnapshot } from './session'
+import {
+  buildKeywords,
+  countKeywords,
+  DEFAULT_FILLER_POOLS,
+  KEYWORD_POLICY_LABELS,
+  MEDIA_KIND_LABELS,
+  mediaKindOf,
+  normalizeTitle,
+  padKeywords,
+  PADDING_MODE_LABELS,
+  parseFillerPool,
+  PLATFORM_KEYWORD_POLICY,
+} from './keywords'
+import { BUILT_IN_SYNONYM_GROUPS_TEXT, BUILT_IN_SYNONYMS, parseSynonymGroups } from './normalize'
+import { groupSimilar, SIMILAR_HANDLING_LABELS } from './similarity'
+import { makePreview } from './thumbnails'
+import { useUndoStack } from './undo'
+import { FILE_ROW_HEIGHT_ESTIMATE, FileRow, useStableRowActions } from './FileRow'
+import { VirtualList } from './VirtualList'
+import { findTitleCollisions } from './titles'
+import { hasErrors, validateBatch, validateItem, ValidationIssue } from './validation'
+import { applyGenerated, recordVersion, revertToVersion } from './versions'
+import { extractVideoKeyframes, isVideoFile, readVideoInfo } from './video'
 
 /** ----- File helpers ----- */
 
@@ -197,7 +127,7 @@ async function fileToText(file: File): Promise<string> {
   })
 }
 
-// SVG → PNG (base64) – Gemini vision এর জন্য
+// SVG → PNG (base64) – model vision এর জন্য
 async function svgFileToPngBase64(file: File): Promise<string> {
   const dataUrl: string = await new Promise((resolve, reject) => {
     const reader = new FileReader()
@@ -239,16 +169,69 @@ async function svgFileToPngBase64(file: File): Promise<string> {
 
 /** ===================== MAIN APP ===================== */
 
+// what undo/redo puts back; the list itself, previews and hashes are left as they are
+const UNDOABLE_FIELDS = [
+  'title',
+  'keywords',
+  'description',
+  'categories',
+  'flags',
+  'prompt',
+  'shortPrompt',
+  'negativePrompt',
+  'status',
+  'error',
+  'errorKind',
+  'imported',
+  'importedSources',
+  'strippedTerms',
+  'mergedTerms',
+  'releaseHints',
+  'versions',
+  'groupExcluded',
+] as const
+
+function copyField<K extends keyof FileItem>(to: Partial<FileItem>, from: FileItem, key: K) {
+  to[key] = from[key]
+}
+
+// metadata of files still in the list goes back to the snapshot; added/removed files stay
+function restoreMetadata(current: FileItem[], snapshot: FileItem[]): FileItem[] {
+  const byId = new Map(snapshot.map((f) => [f.id, f]))
+  return current.map((f) => {
+    const old = byId.get(f.id)
+    if (!old || old === f) return f
+    const restored: Partial<FileItem> = {}
+    UNDOABLE_FIELDS.forEach((key) => copyField(restored, old, key))
+    return { ...f, ...restored }
+  })
+}
+
 const MAX_KEYS = 5
+// per file, including the first try
+const MAX_ATTEMPTS = 4
+// thumbnails shown per state update while a batch is being processed
+const PREVIEW_FLUSH_SIZE = 25
 
 const App: React.FC = () => {
   // Login
   const [email, setEmail] = useState('')
   const [isLoggedIn, setIsLoggedIn] = useState(false)
 
-  // Gemini API keys (up to 5)
+  // API keys (up to 5), used by whichever provider is selected
   const [apiKeys, setApiKeys] = useState<string[]>(Array(MAX_KEYS).fill(''))
 
+  // Model provider + per-provider model / base URL
+  const [providerId, setProviderId] = useState<ProviderId>('gemini')
+  const [providerConfigs, setProviderConfigs] = useState<Record<ProviderId, ProviderConfig>>(
+    () =>
+      Object.fromEntries(
+        Object.values(PROVIDERS).map((p) => [p.id, { ...p.defaultConfig }]),
+      ) as Record<ProviderId, ProviderConfig>,
+  )
+  const provider = PROVIDERS[providerId]
+  const providerConfig = providerConfigs[providerId]
+
   // Mode & platform
   const [mode, setMode] = useState<Mode>('metadata')
   const [platform, setPlatform] = useState<Platform>('adobe')
@@ -258,6 +241,32 @@ const App: React.FC = () => {
   const [keywordsCount, setKeywordsCount] = useState(25)
   const [descriptionLength, setDescriptionLength] = useState(200)
   const [autoRemoveDupKeywords, setAutoRemoveDupKeywords] = useState(true)
+  const [keywordPolicySetting, setKeywordPolicySetting] = useState<KeywordPolicy | 'platform'>(
+    'platform',
+  )
+  const keywordPolicy =
+    keywordPolicySetting === 'platform' ? PLATFORM_KEYWORD_POLICY[platform] : keywordPolicySetting
+  const categoryTaxonomy = CATEGORY_TAXONOMIES[platform]
+
+  // Editorial / mature / illustration / AI / releases – batch defaults, rows can override
+  const [flagDefaults, setFlagDefaults] = useState<FileFlags>(DEFAULT_FILE_FLAGS)
+  // ask the model whether people or recognizable property are visible
+  const [suggestReleases, setSuggestReleases] = useState(false)
+
+  // near-duplicate groups: generate separately, once and copy, or with distinct titles
+  const [similarHandling, setSimilarHandling] = useState<SimilarHandling>('separate')
+  const [uniqueTitles, setUniqueTitles] = useState(true)
+
+  // Plural / spelling / synonym folding (built-in table + user groups)
+  const [normalizeKeywords, setNormalizeKeywords] = useState(true)
+  const [customSynonymText, setCustomSynonymText] = useState(
+    () => localStorage.getItem('csv_tool_synonyms') || '',
+  )
+  const synonymTable = useMemo(
+    () => parseSynonymGroups(customSynonymText, new Map(BUILT_IN_SYNONYMS)),
+    [customSynonymText],
+  )
+  const synonyms = normalizeKeywords ? synonymTable : null
 
   // Bulk keyword, prefix/suffix
   const [bulkKeywordEnabled, setBulkKeywordEnabled] = useState(false)
@@ -267,14 +276,75 @@ const App: React.FC = () => {
   const [prefixText, setPrefixText] = useState('')
   const [suffixText, setSuffixText] = useState('')
 
+  // Brand / trademark / spam filter (built-in list + user additions)
+  const [blocklistEnabled, setBlocklistEnabled] = useState(true)
+  const [customBlocklistText, setCustomBlocklistText] = useState(
+    () => localStorage.getItem('csv_tool_blocklist') || '',
+  )
+  const blocklists = useMemo(
+    () => [BUILT_IN_BLOCKLIST, parseBlocklist(customBlocklistText)],
+    [customBlocklistText],
+  )
+
+  // Topping up short keyword lists: follow-up request, per-type word pool, or flag only
+  const [paddingMode, setPaddingMode] = useState<PaddingMode>('model')
+  const [fillerPoolText, setFillerPoolText] = useState<Record<MediaKind, string>>({
+    photo: DEFAULT_FILLER_POOLS.photo.join(', '),
+    vector: DEFAULT_FILLER_POOLS.vector.join(', '),
+    video: DEFAULT_FILLER_POOLS.video.join(', '),
+  })
+  const fillerPools = useMemo<Record<MediaKind, string[]>>(
+    () => ({
+      photo: parseFillerPool(fillerPoolText.photo),
+      vector: parseFillerPool(fillerPoolText.vector),
+      video: parseFillerPool(fillerPoolText.video),
+    }),
+    [fillerPoolText],
+  )
+
   // Files & state
   const [files, setFiles] = useState<FileItem[]>([])
+  const undoStack = useUndoStack(files, (snapshot) =>
+    setFiles((prev) => groupSimilar(restoreMetadata(prev, snapshot))),
+  )
+  // file and field being typed into (see endEditSession)
+  const editSessionRef = useRef<{ id: string; key: string } | null>(null)
+  // latest list for code running across renders (generation reads sibling titles)
+  const filesRef = useRef(files)
+  filesRef.current = files
   const [uploadProgress, setUploadProgress] = useState(0)
   const [generatedCount, setGeneratedCount] = useState(0)
   const [failedCount, setFailedCount] = useState(0)
   const [history, setHistory] = useState<string[]>([])
   const [isGeneratingAll, setIsGeneratingAll] = useState(false)
 
+  // Parallel generation
+  const [concurrency, setConcurrency] = useState(3)
+  const [requestsPerMinute, setRequestsPerMinute] = useState(15)
+  const [importedHandling, setImportedHandling] = useState<ImportedHandling>('skip')
+  const rateLimiterRef = useRef(createRateLimiter())
+
+  // Per-key health (active / cooling / invalid + request count)
+  const [keyHealth, setKeyHealth] = useState<Record<string, KeyHealth>>({})
+  const keyManagerRef = useRef(createKeyManager(setKeyHealth))
+
+  // Saved session (IndexedDB): autosave only starts once restore was accepted or declined
+  const [pendingRestore, setPendingRestore] = useState<SessionSnapshot | null>(null)
+  const [sessionReady, setSessionReady] = useState(false)
+  const storedBlobIdsRef = useRef(new Set<string>())
+
+  // Export blocked by validation errors, waiting for skip / cancel
+  const [exportCheckOpen, setExportCheckOpen] = useState(false)
+
+  // CSV import waiting for confirmation (conflict report)
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  // Named settings presets
+  const [presets, setPresets] = useState<SettingsPreset[]>(() => loadPresets())
+  const [selectedPreset, setSelectedPreset] = useState('')
+  const presetInputRef = useRef<HTMLInputElement>(null)
+
   // নতুন: stop flag (Start / Stop টগল করার জন্য)
   const [stopRequested, setStopRequested] = useState(false)
   const stopRequestedRef = useRef(false)
@@ -298,6 +368,216 @@ const App: React.FC = () => {
     }
   }, [])
 
+  useEffect(() => {
+    localStorage.setItem('csv_tool_blocklist', customBlocklistText)
+  }, [customBlocklistText])
+
+  useEffect(() => {
+    localStorage.setItem('csv_tool_synonyms', customSynonymText)
+  }, [customSynonymText])
+
+  useEffect(() => {
+    savePresets(presets)
+  }, [presets])
+
+  /** ---- Load / save provider settings ---- */
+  useEffect(() => {
+    const stored = localStorage.getItem('csv_tool_provider')
+    if (!stored) return
+    try {
+      const parsed = JSON.parse(stored)
+      if (parsed && parsed.id in PROVIDERS) setProviderId(parsed.id)
+      if (parsed && parsed.configs) {
+        setProviderConfigs((prev) => {
+          const merged = { ...prev }
+          ;(Object.keys(PROVIDERS) as ProviderId[]).forEach((id) => {
+            if (parsed.configs[id]) merged[id] = { ...prev[id], ...parsed.configs[id] }
+          })
+          return merged
+        })
+      }
+    } catch {
+      // ignore parse error
+    }
+  }, [])
+
+  useEffect(() => {
+    localStorage.setItem(
+      'csv_tool_provider',
+      JSON.stringify({ id: providerId, configs: providerConfigs }),
+    )
+  }, [providerId, providerConfigs])
+
+  /** ---- Session: offer restore on load, autosave after ---- */
+  useEffect(() => {
+    loadSession()
+      .then((snapshot) => {
+        if (snapshot && snapshot.files.length) {
+          setPendingRestore(snapshot)
+        } else {
+          setSessionReady(true)
+        }
+      })
+      .catch((err) => {
+        console.error('Could not read saved session', err)
+        setSessionReady(true)
+      })
+  }, [])
+
+  const currentSettings: SessionSettings = {
+    mode,
+    platform,
+    titleLength,
+    keywordsCount,
+    descriptionLength,
+    autoRemoveDupKeywords,
+    keywordPolicy: keywordPolicySetting,
+    normalizeKeywords,
+    bulkKeywordEnabled,
+    bulkKeywordText,
+    prefixEnabled,
+    suffixEnabled,
+    prefixText,
+    suffixText,
+    concurrency,
+    requestsPerMinute,
+    importedHandling,
+    paddingMode,
+    fillerPools: fillerPoolText,
+    flagDefaults,
+    suggestReleases,
+    similarHandling,
+    uniqueTitles,
+  }
+
+  useEffect(() => {
+    if (!sessionReady) return
+    const timer = setTimeout(() => {
+      const save = files.length
+        ? saveSession(files, currentSettings, history, storedBlobIdsRef.current)
+        : clearSession().then(() => storedBlobIdsRef.current.clear())
+      save.catch((err) => console.error('Could not save session', err))
+    }, 1000)
+    return () => clearTimeout(timer)
+  }, [sessionReady, files, history, JSON.stringify(currentSettings)])
+
+  const applySettings = (settings: SessionSettings) => {
+    setMode(settings.mode)
+    setPlatform(settings.platform)
+    setTitleLength(settings.titleLength)
+    setKeywordsCount(settings.keywordsCount)
+    setDescriptionLength(settings.descriptionLength)
+    setAutoRemoveDupKeywords(settings.autoRemoveDupKeywords)
+    setKeywordPolicySetting(settings.keywordPolicy)
+    if (settings.normalizeKeywords !== undefined) setNormalizeKeywords(settings.normalizeKeywords)
+    setBulkKeywordEnabled(settings.bulkKeywordEnabled)
+    setBulkKeywordText(settings.bulkKeywordText)
+    setPrefixEnabled(settings.prefixEnabled)
+    setSuffixEnabled(settings.suffixEnabled)
+    setPrefixText(settings.prefixText)
+    setSuffixText(settings.suffixText)
+    setConcurrency(settings.concurrency)
+    setRequestsPerMinute(settings.requestsPerMinute)
+    setImportedHandling(settings.importedHandling)
+    // sessions saved before padding settings existed
+    if (settings.paddingMode) setPaddingMode(settings.paddingMode)
+    if (settings.fillerPools) setFillerPoolText(settings.fillerPools)
+    if (settings.flagDefaults) setFlagDefaults(settings.flagDefaults)
+    if (settings.suggestReleases !== undefined) setSuggestReleases(settings.suggestReleases)
+    if (settings.similarHandling) setSimilarHandling(settings.similarHandling)
+    if (settings.uniqueTitles !== undefined) setUniqueTitles(settings.uniqueTitles)
+  }
+
+  /** ---- Settings presets ---- */
+  const handleSelectPreset = (name: string) => {
+    setSelectedPreset(name)
+    const preset = presets.find((p) => p.name === name)
+    if (!preset) return
+    // older presets lack newer fields → those keep their current value
+    applySettings({ ...currentSettings, ...preset.settings })
+    addHistory(`Preset "${name}" applied.`)
+  }
+
+  const handleSavePreset = (asNew: boolean) => {
+    const name = asNew
+      ? (window.prompt('Preset name (e.g. "Adobe vectors")', '') || '').trim()
+      : selectedPreset
+    if (!name) return
+    if (asNew && presets.some((p) => p.name === name) && !window.confirm(`Replace preset "${name}"?`)) {
+      return
+    }
+    setPresets((prev) => upsertPreset(prev, { name, settings: currentSettings, savedAt: Date.now() }))
+    setSelectedPreset(name)
+    addHistory(`Preset "${name}" saved.`)
+  }
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset || !window.confirm(`Delete preset "${selectedPreset}"?`)) return
+    setPresets((prev) => prev.filter((p) => p.name !== selectedPreset))
+    addHistory(`Preset "${selectedPreset}" deleted.`)
+    setSelectedPreset('')
+  }
+
+  const handleExportPresets = () => {
+    if (!presets.length) {
+      alert('No presets saved yet.')
+      return
+    }
+    const blob = new Blob([presetsToJson(presets)], { type: 'application/json;charset=utf-8' })
+    saveAs(blob, 'metadata_presets.json')
+    addHistory(`${presets.length} preset(s) exported as metadata_presets.json.`)
+  }
+
+  const handleImportPresets = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      const imported = parsePresetsJson(await file.text())
+      setPresets((prev) => imported.reduce(upsertPreset, prev))
+      addHistory(
+        `Imported ${imported.length} preset(s) from ${file.name}: ${imported
+          .map((p) => p.name)
+          .join(', ')}.`,
+      )
+    } catch (err: any) {
+      console.error(err)
+      alert(`Could not import presets: ${err && err.message ? err.message : 'unknown error'}`)
+    }
+  }
+
+  const handleRestoreSession = () => {
+    if (!pendingRestore) return
+    const restored = pendingRestore.files
+
+    storedBlobIdsRef.current = new Set(
+      restored.flatMap((f) => [f.id, `${f.id}#${f.companion ? f.companion.name : ''}`]),
+    )
+    applySettings({ ...currentSettings, ...pendingRestore.settings })
+    // anything uploaded before clicking Restore stays after the restored files
+    setFiles((prev) => [...restored, ...prev])
+    setHistory(pendingRestore.history)
+    setGeneratedCount(restored.filter((f) => f.status === 'success').length)
+    setFailedCount(restored.filter((f) => f.status === 'failed').length)
+    setUploadProgress(100)
+    void loadPreviews(
+      restored
+        .map((f) => ({ id: f.id, blob: f.companion || f.file }))
+        .filter((s) => s.blob.type.startsWith('image/')),
+    )
+    loadVideoPosters(restored)
+    setPendingRestore(null)
+    setSessionReady(true)
+    addHistory(`Session restored (${restored.length} files).`)
+  }
+
+  const handleDiscardSession = () => {
+    setPendingRestore(null)
+    clearSession()
+      .catch((err) => console.error('Could not clear saved session', err))
+      .finally(() => setSessionReady(true))
+  }
+
   /** ---- Helpers ---- */
 
   const addHistory = (msg: string) => {
@@ -307,7 +587,7 @@ const App: React.FC = () => {
   const handleSaveApiKeys = () => {
     const cleaned = apiKeys.map((k) => k.trim()).filter((k) => k.length > 0)
     if (!cleaned.length) {
-      alert('Please add at least one Gemini API key.')
+      alert('Please add at least one API key.')
       return
     }
     localStorage.setItem('csv_tool_gemini_keys', JSON.stringify(cleaned))
@@ -316,7 +596,15 @@ const App: React.FC = () => {
       normalized[idx] = k
     })
     setApiKeys(normalized)
-    addHistory(`Saved ${cleaned.length} Gemini API key(s).`)
+    keyManagerRef.current.reset(cleaned)
+    addHistory(`Saved ${cleaned.length} API key(s).`)
+  }
+
+  const updateProviderConfig = (field: keyof ProviderConfig, value: string) => {
+    setProviderConfigs((prev) => ({
+      ...prev,
+      [providerId]: { ...prev[providerId], [field]: value },
+    }))
   }
 
   const handleApiKeyChange = (index: number, value: string) => {
@@ -354,17 +642,17 @@ const App: React.FC = () => {
     const newItems = arr.map((file, index) => {
       processed++
       const id = `${Date.now()}-${index}-${file.name}`
-      const previewUrl = file.type.startsWith('image/')
-        ? URL.createObjectURL(file)
-        : undefined
 
+      // previewUrl is filled in by loadPreviews once the thumbnail is ready
       const item: FileItem = {
         id,
         file,
-        previewUrl,
         title: '',
         keywords: '',
         description: '',
+        prompt: '',
+        shortPrompt: '',
+        negativePrompt: '',
         status: 'pending',
       }
 
@@ -374,8 +662,188 @@ const App: React.FC = () => {
       return item
     })
 
-    setFiles((prev) => [...prev, ...newItems])
+    setFiles((prev) => pairVectorPreviews([...prev, ...newItems]))
     addHistory(`${newItems.length} files added.`)
+
+    const newVectors = newItems.filter((item) => isEpsOrAi(item.file.name))
+    if (newVectors.length) {
+      addHistory(
+        `${newVectors.length} EPS/AI file(s) added. Same-name JPG files are used as their preview.`,
+      )
+    }
+
+    // no JPG companion → try the preview embedded in the EPS/AI itself
+    const allItems = [...files, ...newItems]
+    newVectors
+      .filter((item) => !hasPreviewRaster(item.file.name, allItems))
+      .forEach((item) => {
+        extractEmbeddedPreview(item.file)
+          .then((blob) => {
+            if (!blob) {
+              addHistory(`No embedded preview found in ${item.file.name}.`)
+              return
+            }
+            const previewName = item.file.name.replace(/\.[^.]+$/, '') + '-preview.jpg'
+            const preview = new File([blob], previewName, { type: blob.type })
+            setFiles((prev) =>
+              prev.map((f) =>
+                f.id === item.id && !f.companion
+                  ? {
+                      ...f,
+                      companion: preview,
+                      previewSource: 'embedded',
+                      unpaired: false,
+                    }
+                  : f,
+              ),
+            )
+            void loadPreviews([{ id: item.id, blob }])
+          })
+          .catch((err) => {
+            console.error(err)
+            addHistory(`Could not read embedded preview of ${item.file.name}.`)
+          })
+      })
+
+    // thumbnail + hash of what the model will look at: the image itself or an EPS/AI's paired JPG
+    const newIds = new Set(newItems.map((item) => item.id))
+    void loadPreviews(
+      pairVectorPreviews(allItems)
+        .filter((f) => newIds.has(f.id) || (f.companion && !f.phash))
+        .map((f) => ({ id: f.id, blob: f.companion || f.file }))
+        .filter((s) => s.blob.type.startsWith('image/')),
+    )
+    loadVideoPosters(newItems)
+    loadExistingMetadata(newItems)
+  }
+
+  /**
+   * ---- Thumbnails + near-duplicate detection ----
+   * Thumbnails are downscaled in a worker and shown in chunks as they arrive;
+   * similar groups are rebuilt once, after every hash of the batch is in.
+   */
+  const loadPreviews = async (sources: { id: string; blob: Blob }[]) => {
+    if (!sources.length) return
+    let pending = new Map<string, { url: string; hash: string | null }>()
+    let hashed = false
+
+    const flush = () => {
+      if (!pending.size) return
+      const ready = pending
+      pending = new Map()
+      // revoke the URLs being replaced (e.g. a paired raster's thumbnail) and those of files
+      // removed or cleared meanwhile; undo never brings a previewUrl back (restoreMetadata)
+      const current = new Map(filesRef.current.map((f) => [f.id, f]))
+      ready.forEach((next, id) => {
+        const f = current.get(id)
+        if (!f) URL.revokeObjectURL(next.url)
+        else if (f.previewUrl && f.previewUrl !== next.url) URL.revokeObjectURL(f.previewUrl)
+      })
+      setFiles((prev) =>
+        prev.map((f) => {
+          const next = ready.get(f.id)
+          if (!next) return f
+          return { ...f, previewUrl: next.url, phash: next.hash || f.phash }
+        }),
+      )
+    }
+
+    for (const source of sources) {
+      try {
+        const { thumb, hash } = await makePreview(source.blob)
+        // no thumbnail (SVG, or no worker support) → the original is small enough or all we have
+        pending.set(source.id, { url: URL.createObjectURL(thumb || source.blob), hash })
+        if (hash) hashed = true
+      } catch (err) {
+        console.error(err)
+      }
+      if (pending.size >= PREVIEW_FLUSH_SIZE) flush()
+    }
+    flush()
+    if (hashed) setFiles((prev) => groupSimilar(prev))
+  }
+
+  const handleExcludeFromGroup = (id: string) => {
+    undoStack.checkpoint('Remove from similar group')
+    setFiles((prev) =>
+      groupSimilar(prev.map((f) => (f.id === id ? { ...f, groupExcluded: true } : f))),
+    )
+  }
+
+  // copy mode: group members that have no metadata yet get the generated file's
+  const copyToGroup = (source: FileItem, partial: Partial<FileItem>) => {
+    const members = filesRef.current.filter(
+      (f) => f.similarGroup === source.similarGroup && f.id !== source.id && f.status !== 'success',
+    )
+    if (!members.length) return
+    const ids = new Set(members.map((f) => f.id))
+    setFiles((prev) =>
+      prev.map((f) => (ids.has(f.id) ? { ...applyGenerated(f, partial), error: '', errorKind: undefined } : f)),
+    )
+    setGeneratedCount((c) => c + members.length)
+    addHistory(`Copied metadata from ${source.file.name} to ${members.length} similar file(s).`)
+  }
+
+  // XMP / IPTC / EXIF already in the file → prefill and mark as imported
+  const loadExistingMetadata = (items: FileItem[]) => {
+    const readable = items.filter((item) => /\.(jpe?g|png|svg)$/i.test(item.file.name))
+    if (!readable.length) return
+
+    Promise.all(
+      readable.map((item) =>
+        readExistingMetadata(item.file)
+          .then((meta) => ({ item, meta }))
+          .catch(() => ({ item, meta: null })),
+      ),
+    ).then((results) => {
+      const found = results.filter((r) => r.meta)
+      if (!found.length) return
+      const byId = new Map(found.map((r) => [r.item.id, r.meta!]))
+
+      setFiles((prev) =>
+        prev.map((f) => {
+          const meta = byId.get(f.id)
+          if (!meta || f.title || f.keywords || f.status !== 'pending') return f
+          // description only (often a camera's "OLYMPUS DIGITAL CAMERA") → still needs generating
+          if (!meta.title && !meta.keywords.length) {
+            return f.description ? f : { ...f, description: meta.description }
+          }
+          return {
+            ...f,
+            title: meta.title,
+            keywords: meta.keywords.join(', '),
+            description: meta.description,
+            status: 'success',
+            imported: true,
+            importedSources: meta.sources,
+          }
+        }),
+      )
+      const complete = found.filter((r) => r.meta!.title || r.meta!.keywords.length).length
+      addHistory(
+        `Existing metadata found in ${found.length} file(s) and prefilled` +
+          (complete < found.length
+            ? `; ${found.length - complete} had only a description and still need generating.`
+            : '.'),
+      )
+    })
+  }
+
+  // video: poster frame + duration/resolution/fps, decoded in the background
+  const loadVideoPosters = (items: FileItem[]) => {
+    items
+      .filter((item) => isVideoFile(item.file))
+      .forEach((item) => {
+        readVideoInfo(item.file)
+          .then(({ info, poster }) => {
+            setFiles((prev) => prev.map((f) => (f.id === item.id ? { ...f, video: info } : f)))
+            if (poster) void loadPreviews([{ id: item.id, blob: poster }])
+          })
+          .catch((err) => {
+            console.error(err)
+            addHistory(`Could not decode video ${item.file.name}.`)
+          })
+      })
   }
 
   const onDrop = (e: React.DragEvent<HTMLDivElement>) => {
@@ -396,25 +864,219 @@ const App: React.FC = () => {
       if (f.previewUrl) URL.revokeObjectURL(f.previewUrl)
     })
     setFiles([])
+    undoStack.reset()
     setUploadProgress(0)
     setGeneratedCount(0)
     setFailedCount(0)
     addHistory('All files cleared.')
   }
 
-  /** ---- Gemini single-call, for one key ---- */
-  const callGeminiWithKey = async (
+  const keywordRule =
+    keywordPolicy === 'split'
+      ? 'single-word keywords (no phrases)'
+      : 'keywords; short phrases of up to 3 words are fine where they are the natural term (e.g. "hot air balloon")'
+
+  const withPrefixSuffix = (title: string): string => {
+    let result = title
+    if (prefixEnabled && prefixText.trim()) {
+      result = `${prefixText.trim()} ${result}`.trim()
+    }
+    if (suffixEnabled && suffixText.trim()) {
+      result = `${result} ${suffixText.trim()}`.trim()
+    }
+    return result
+  }
+
+  /** ---- What the model looks at: image(s) plus short notes, no prompt ---- */
+  const buildImageParts = async (item: FileItem): Promise<RequestPart[]> => {
+    // EPS/AI → the paired JPG is what the model looks at
+    const visionFile = item.companion || item.file
+    const mimeType = visionFile.type || ''
+    const isRasterImage = /^image\/(png|jpe?g|webp|gif)$/i.test(mimeType)
+    const isSvg = mimeType === 'image/svg+xml' || /\.svg$/i.test(item.file.name)
+    const isVideo = isVideoFile(item.file)
+
+    const parts: RequestPart[] = []
+
+    if (isRasterImage) {
+      const base64 = await fileToBase64(visionFile)
+      parts.push({ kind: 'image', mimeType, data: base64 })
+    }
+
+    if (item.companion) {
+      parts.push({
+        kind: 'text',
+        text:
+          item.previewSource === 'embedded'
+            ? `The image above is the preview embedded in the vector file ${item.file.name}.`
+            : `The image above is the JPG preview of the vector file ${item.file.name}.`,
+      })
+    }
+
+    if (isSvg) {
+      const pngBase64 = await svgFileToPngBase64(item.file).catch(() => {
+        throw new GenerationError('unsupported', 'SVG could not be rendered')
+      })
+      parts.push({ kind: 'image', mimeType: 'image/png', data: pngBase64 })
+
+      const svgText = await fileToText(item.file)
+      const truncated = svgText.slice(0, 3000)
+      parts.push({
+        kind: 'text',
+        text: 'Here is the beginning of the SVG source code (truncated):\n' + truncated,
+      })
+    }
+
+    if (isVideo) {
+      const frames = await extractVideoKeyframes(item.file, 4).catch(() => {
+        throw new GenerationError('unsupported', 'Video could not be decoded in this browser')
+      })
+      frames.forEach((data) => {
+        parts.push({ kind: 'image', mimeType: 'image/jpeg', data })
+      })
+      parts.push({
+        kind: 'text',
+        text: `The ${frames.length} images above are keyframes from one video, in playback order.`,
+      })
+    }
+
+    // nothing the model can look at → the result would be made up from the filename
+    if (!parts.some((p) => p.kind === 'image')) {
+      const ext = item.file.name.split('.').pop()?.toLowerCase() || 'unknown'
+      throw new GenerationError('unsupported', `No image input for .${ext} files`)
+    }
+
+    return parts
+  }
+
+  /** ---- Follow-up call: more keywords for the same image input ---- */
+  const requestMoreKeywords = async (
     apiKey: string,
     item: FileItem,
-  ): Promise<Partial<FileItem>> => {
-    const apiUrl =
-      'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=' +
-      encodeURIComponent(apiKey)
+    imageParts: RequestPart[],
+    keywords: string,
+  ): Promise<string> => {
+    const missing = keywordsCount - countKeywords(keywords)
+    const kind = mediaKindOf(item.file)
+    const followUpPrompt = `
+You are an expert stock content metadata generator.
+
+File name: ${item.file.name}
+Media: ${kind}
+Keywords already chosen: ${keywords || '(none)'}
+
+Look at the ${kind === 'video' ? 'keyframes' : 'image'} again and give ${missing + 5} MORE ${keywordRule} (no numbers, no symbols).
+They must describe what is actually visible (subject, setting, colors, mood, concept, usage) and must not repeat the keywords above.
+
+Return ONLY a JSON object in this exact shape:
+{
+  "keywords": ["word1", "word2", "..."]
+}
+No explanation. No markdown. No extra text. Only raw JSON.
+    `.trim()
+
+    try {
+      await rateLimiterRef.current.acquire(apiKey, requestsPerMinute, () => stopRequestedRef.current)
+      const parsed = parseModelJson(
+        await provider.generate(
+          [...imageParts, { kind: 'text', text: followUpPrompt }],
+          apiKey,
+          providerConfig,
+        ),
+      )
+      let extra = Array.isArray(parsed.keywords)
+        ? parsed.keywords.join(', ')
+        : String(parsed.keywords || '')
+      if (blocklistEnabled) {
+        extra = filterBlockedTerms('', extra, platform, blocklists).keywords
+      }
+      return padKeywords(keywords, extra.split(','), keywordsCount, keywordPolicy, synonyms)
+    } catch (err: any) {
+      if (err instanceof GenerationStoppedError) throw err
+      // the first answer is still usable – the file is flagged as short instead
+      addHistory(
+        `Follow-up keyword request failed for ${item.file.name}: ${
+          err && err.message ? err.message : 'Unknown error'
+        }`,
+      )
+      return keywords
+    }
+  }
 
-    const prompt = `
+  /** ---- Title-only call: a title that differs from the given ones ---- */
+  const requestDistinctTitle =
+    (avoidTitles: string[]) =>
+    async (apiKey: string, item: FileItem): Promise<Partial<FileItem>> => {
+      const titlePrompt = `
+You are an expert stock content metadata generator.
+
+File name: ${item.file.name}
+Current title: ${item.title}
+Other files in this batch already use these titles: ${avoidTitles.map((t) => `"${t}"`).join('; ')}
+
+Write a new title for THIS ${isVideoFile(item.file) ? 'video' : 'image'}: English, max ${titleLength} characters, no quotes.
+It must clearly differ from the titles above by naming what is specific to this file (subject details, colors, action, setting, framing, style).
+
+Return ONLY a JSON object in this exact shape:
+{
+  "title": "string"
+}
+No explanation. No markdown. No extra text. Only raw JSON.
+      `.trim()
+
+      const parts = await buildImageParts(item)
+      parts.push({ kind: 'text', text: titlePrompt })
+      const parsed = parseModelJson(await provider.generate(parts, apiKey, providerConfig))
+
+      let title = normalizeTitle(String(parsed.title || '')).slice(0, titleLength)
+      if (blocklistEnabled) title = filterBlockedTerms(title, '', platform, blocklists).title
+      if (!title) throw new GenerationError('parse', 'Model returned an empty title')
+      return { title: withPrefixSuffix(title) }
+    }
+
+  /** ---- Single model call, for one key ---- */
+  const callModelWithKey = async (
+    apiKey: string,
+    item: FileItem,
+  ): Promise<Partial<FileItem>> => {
+    const videoLine = item.video
+      ? `\nVideo: ${item.video.duration.toFixed(1)}s, ${item.video.width}x${item.video.height}${
+          item.video.frameRate ? `, ${item.video.frameRate} fps` : ''
+        }. Describe the footage (motion, action, camera) rather than a single still.`
+      : ''
+
+    const categoryLine = categoryTaxonomy
+      ? `\n- Categories: ${
+          categoryTaxonomy.max === 1 ? 'exactly 1' : `1 to ${categoryTaxonomy.max}`
+        }, chosen ONLY from this list (answer with the value before "=" where there is one): ${describeCategoryOptions(
+          categoryTaxonomy,
+        )}.`
+      : ''
+    // differentiate mode: tell the model about the near-duplicates and their titles so far
+    const siblings =
+      similarHandling === 'differentiate' && item.similarGroup
+        ? filesRef.current.filter((f) => f.similarGroup === item.similarGroup && f.id !== item.id)
+        : []
+    const usedTitles = siblings.map((f) => f.title.trim()).filter(Boolean)
+    const similarLine = siblings.length
+      ? `\n- This file is one of ${
+          siblings.length + 1
+        } near-identical variants in the batch (color variants, crops, small edits). Its title must clearly differ from theirs by naming what is specific to THIS file (colors, crop, framing, background, details).${
+          usedTitles.length
+            ? ` Titles already used: ${usedTitles.map((t) => `"${t}"`).join('; ')}.`
+            : ''
+        }`
+      : ''
+    const categoryShape = categoryTaxonomy ? ',\n  "categories": ["string"]' : ''
+    const releaseLine = suggestReleases
+      ? '\n- has_people: true if a recognizable person (face or identifying features) is visible. has_property: true if recognizable private property, a landmark building, artwork, logo or branded product is visible.'
+      : ''
+    const releaseShape = suggestReleases ? ',\n  "has_people": false,\n  "has_property": false' : ''
+
+    const metadataPrompt = `
 You are an expert stock content metadata generator for sites like Adobe Stock, Shutterstock, Freepik, and Vecteezy.
 
-You receive a rendered image (PNG/JPG/WEBP/GIF) or a vector (SVG converted to PNG).
+You receive a rendered image (PNG/JPG/WEBP/GIF), a vector (SVG converted to PNG), or keyframes sampled in order from a video clip.
 Carefully analyze:
 - Main subject (e.g. cat, dog, abstract geometric pattern, human, etc.)
 - Style (silhouette, line art, flat, geometric, cartoon, minimal, abstract, etc.)
@@ -422,118 +1084,81 @@ Carefully analyze:
 - Background and composition (copy space, pattern, framing, etc.)
 
 File name: ${item.file.name}
-File type: ${item.file.type || 'unknown'}
+File type: ${item.file.type || 'unknown'}${videoLine}
 Target platform: ${platform}
-Mode: ${mode === 'metadata' ? 'metadata for title, keywords, description' : 'prompt focused'}
 
 Requirements:
 - Language: English.
 - Title: max ${titleLength} characters, no quotes, very specific to THIS image.
-- Keywords: EXACTLY ${keywordsCount} single-word keywords (no phrases, no numbers, no symbols). All must be relevant to this image only (subject, style, colors, mood, usage).
-- Description: max ${descriptionLength} characters, 1–2 natural sentences describing the image for a stock customer.
+- Keywords: EXACTLY ${keywordsCount} ${keywordRule} (no numbers, no symbols). All must be relevant to this image only (subject, style, colors, mood, usage).
+- Description: max ${descriptionLength} characters, 1–2 natural sentences describing the image for a stock customer.${categoryLine}${releaseLine}${similarLine}
 
 Return ONLY a JSON object in this exact shape:
 {
   "title": "string",
   "keywords": ["word1", "word2", "..."],
-  "description": "string"
+  "description": "string"${categoryShape}${releaseShape}
 }
 No explanation. No markdown. No extra text. Only raw JSON.
     `.trim()
 
-    const mimeType = item.file.type || ''
-    const isRasterImage = /^image\/(png|jpe?g|webp|gif)$/i.test(mimeType)
-    const isSvg = mimeType === 'image/svg+xml' || /\.svg$/i.test(item.file.name)
-
-    const parts: any[] = []
-
-    if (isRasterImage) {
-      const base64 = await fileToBase64(item.file)
-      parts.push({
-        inline_data: {
-          mime_type: mimeType,
-          data: base64,
-        },
-      })
-    }
-
-    if (isSvg) {
-      const pngBase64 = await svgFileToPngBase64(item.file)
-      parts.push({
-        inline_data: {
-          mime_type: 'image/png',
-          data: pngBase64,
-        },
-      })
+    const imagePrompt = `
+You are an expert prompt engineer for text-to-image models (Midjourney, Stable Diffusion, DALL·E, Firefly).
 
-      const svgText = await fileToText(item.file)
-      const truncated = svgText.slice(0, 3000)
-      parts.push({
-        text: 'Here is the beginning of the SVG source code (truncated):\n' + truncated,
-      })
-    }
-
-    parts.push({ text: prompt })
-
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [
-          {
-            role: 'user',
-            parts,
-          },
-        ],
-        generationConfig: {
-          responseMimeType: 'application/json',
-        },
-      }),
-    })
-
-    if (!response.ok) {
-      const text = await response.text()
-      throw new Error(`Gemini error (${response.status}): ${text}`)
-    }
+You receive a rendered image (PNG/JPG/WEBP/GIF), a vector (SVG converted to PNG), or keyframes sampled in order from a video clip.
+Write prompts that would recreate an image like this one. Carefully describe:
+- Main subject, pose and action
+- Style and medium (photo, flat vector, line art, 3D render, watercolor, etc.)
+- Colors, lighting and mood
+- Composition, camera angle, background and copy space
 
-    const data = await response.json()
-
-    let rawText = ''
-    if (
-      data &&
-      data.candidates &&
-      data.candidates[0] &&
-      data.candidates[0].content &&
-      Array.isArray(data.candidates[0].content.parts)
-    ) {
-      rawText =
-        data.candidates[0].content.parts
-          .map((p: any) => (typeof p.text === 'string' ? p.text : ''))
-          .join(' ')
-          .trim() || ''
-    } else {
-      rawText = JSON.stringify(data)
-    }
+File name: ${item.file.name}
+File type: ${item.file.type || 'unknown'}${videoLine}
+Target platform: ${platform}
 
-    if (!rawText) {
-      throw new Error('Empty response from Gemini')
-    }
+Requirements:
+- Language: English.
+- prompt: one detailed, reusable prompt of 40–120 words, comma-separated phrases, no file names.
+- short_prompt: a compact variant under 25 words keeping only the essential subject and style.
+- negative_prompt: comma-separated things to avoid (artifacts, text, watermark, unwanted styles).
 
-    let jsonText = rawText.trim()
-    jsonText = jsonText.replace(/```json/gi, '').replace(/```/g, '').trim()
-    const firstBrace = jsonText.indexOf('{')
-    const lastBrace = jsonText.lastIndexOf('}')
-    if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-      jsonText = jsonText.slice(firstBrace, lastBrace + 1)
-    }
+Return ONLY a JSON object in this exact shape:
+{
+  "prompt": "string",
+  "short_prompt": "string",
+  "negative_prompt": "string"
+}
+No explanation. No markdown. No extra text. Only raw JSON.
+    `.trim()
 
-    let parsed: any
-    try {
-      parsed = JSON.parse(jsonText)
-    } catch (e) {
-      console.error('Gemini rawText:', rawText)
-      console.error('Gemini jsonText:', jsonText)
-      throw new Error('Failed to parse JSON from Gemini response')
+    const basePrompt = mode === 'prompt' ? imagePrompt : metadataPrompt
+    // embedded metadata from the file: a starting point, not the answer
+    const prompt =
+      item.imported && importedHandling === 'hint'
+        ? `${basePrompt}
+
+The file already carries this metadata. Use it as a hint: keep what is accurate, fix what is not.
+Existing title: ${item.title || '(none)'}
+Existing keywords: ${item.keywords || '(none)'}`
+        : basePrompt
+
+    const parts = await buildImageParts(item)
+    const imageParts = parts.slice()
+    parts.push({ kind: 'text', text: prompt })
+
+    const parsed = parseModelJson(await provider.generate(parts, apiKey, providerConfig))
+
+    if (mode === 'prompt') {
+      return {
+        prompt: String(parsed.prompt || '').replace(/\s+/g, ' ').trim(),
+        shortPrompt: String(parsed.short_prompt || parsed.shortPrompt || '')
+          .replace(/\s+/g, ' ')
+          .trim(),
+        negativePrompt: String(parsed.negative_prompt || parsed.negativePrompt || '')
+          .replace(/\s+/g, ' ')
+          .trim(),
+        status: 'success',
+      }
     }
 
     const rawTitle = String(parsed.title || '')
@@ -543,145 +1168,382 @@ No explanation. No markdown. No extra text. Only raw JSON.
     const rawDescription = String(parsed.description || '')
 
     let title = normalizeTitle(rawTitle).slice(0, titleLength)
-    if (prefixEnabled && prefixText.trim()) {
-      title = `${prefixText.trim()} ${title}`.trim()
-    }
-    if (suffixEnabled && suffixText.trim()) {
-      title = `${title} ${suffixText.trim()}`.trim()
-    }
 
-    const keywords = buildKeywords(
+    const built = buildKeywords(
       rawKeywords,
       bulkKeywordEnabled ? bulkKeywordText : '',
       autoRemoveDupKeywords,
       keywordsCount,
+      keywordPolicy,
+      synonyms,
     )
+    let keywords = built.keywords
+
+    let strippedTerms: string[] = []
+    if (blocklistEnabled) {
+      const filtered = filterBlockedTerms(title, keywords, platform, blocklists)
+      title = filtered.title
+      keywords = filtered.keywords
+      strippedTerms = filtered.stripped
+    }
+
+    // model came back short (or the filter removed some) → top up per padding mode
+    if (countKeywords(keywords) < keywordsCount && paddingMode === 'model') {
+      keywords = await requestMoreKeywords(apiKey, item, imageParts, keywords)
+    } else if (countKeywords(keywords) < keywordsCount && paddingMode === 'pool') {
+      keywords = padKeywords(
+        keywords,
+        fillerPools[mediaKindOf(item.file)],
+        keywordsCount,
+        keywordPolicy,
+        synonyms,
+      )
+    }
+
+    title = withPrefixSuffix(title)
 
     const description = rawDescription.slice(0, descriptionLength)
+    // anything outside the platform's list is dropped here; the row then shows "No category"
+    const categories = matchCategories(parsed.categories ?? parsed.category, platform)
+    const releaseHints = suggestReleases
+      ? { people: parsed.has_people === true, property: parsed.has_property === true }
+      : undefined
 
     return {
       title,
       keywords,
       description,
+      categories,
+      releaseHints,
+      strippedTerms,
+      mergedTerms: built.merged,
       status: 'success',
     }
   }
 
   /** ---- Generate metadata with multiple keys (rotation / fallback) ---- */
-  const generateMetadataWithGemini = async (
+  const generateMetadata = async (
     item: FileItem,
+    request: (apiKey: string, item: FileItem) => Promise<Partial<FileItem>> = callModelWithKey,
   ): Promise<Partial<FileItem>> => {
-    const keys = apiKeys.map((k) => k.trim()).filter((k) => k.length > 0)
+    const keys = provider.needsKey
+      ? apiKeys.map((k) => k.trim()).filter((k) => k.length > 0)
+      : [LOCAL_KEY]
     if (!keys.length) {
-      throw new Error('No Gemini API keys configured.')
+      throw new Error(`No ${provider.label} API keys configured.`)
     }
 
+    // healthy keys round-robin, then prefer keys with free RPM slots
+    const healthy = await keyManagerRef.current.acquireOrder(
+      keys,
+      () => stopRequestedRef.current,
+    )
+    const order = [...healthy].sort(
+      (a, b) =>
+        rateLimiterRef.current.waitTime(a, requestsPerMinute) -
+        rateLimiterRef.current.waitTime(b, requestsPerMinute),
+    )
+
     let lastError: any = null
 
-    for (let i = 0; i < keys.length; i++) {
-      const key = keys[i]
+    for (const key of order) {
+      const i = keys.indexOf(key)
+      await rateLimiterRef.current.acquire(key, requestsPerMinute, () => stopRequestedRef.current)
       try {
-        const result = await callGeminiWithKey(key, item)
-        addHistory(`Gemini generation succeeded with key #${i + 1} for ${item.file.name}`)
+        const result = await request(key, item)
+        keyManagerRef.current.reportSuccess(key)
+        addHistory(
+          provider.needsKey
+            ? `${provider.label} generation succeeded with key #${i + 1} for ${item.file.name}`
+            : `${provider.label} generation succeeded for ${item.file.name}`,
+        )
         return result
       } catch (err: any) {
+        const kind = classifyError(err)
+        // the file itself is the problem – no request was made
+        if (kind === 'unsupported') throw err
+
+        keyManagerRef.current.reportFailure(key, err)
         lastError = err
-        console.error(`Gemini key #${i + 1} failed for ${item.file.name}`, err)
+        console.error(`${provider.label} key #${i + 1} failed for ${item.file.name}`, err)
         addHistory(
-          `Gemini key #${i + 1} failed for ${item.file.name}: ${
+          `${provider.label} key #${i + 1} failed for ${item.file.name}: ${
             err && err.message ? err.message : 'Unknown error'
           }`,
         )
+        // another key won't change a safety block
+        if (kind === 'safety') throw err
       }
     }
 
-    throw lastError || new Error('All Gemini API keys failed.')
+    throw lastError || new Error(`All ${provider.label} API keys failed.`)
   }
 
-  /** ---- Per-file generation ---- */
-  const generateForItem = async (id: string, index: number) => {
+  /** ---- Per-file generation (with retry + backoff for transient errors); true on success ---- */
+  const generateForItem = async (id: string, index: number): Promise<boolean> => {
     setFiles((prev) =>
-      prev.map((f) => (f.id === id ? { ...f, status: 'generating', error: '' } : f)),
+      prev.map((f) =>
+        f.id === id ? { ...f, status: 'generating', error: '', errorKind: undefined } : f,
+      ),
     )
 
-    try {
-      const current = files.find((f) => f.id === id)
-      if (!current) return
-
-      const partial = await generateMetadataWithGemini(current)
-      setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, ...partial } : f)))
-      setGeneratedCount((c) => c + 1)
-    } catch (err: any) {
-      console.error(err)
-      addHistory(
-        `Generation failed for ${id}: ${
-          err && err.message ? err.message : 'Unknown error'
-        }`,
-      )
+    const markFailed = (kind: ErrorKind, reason: string) => {
       setFiles((prev) =>
         prev.map((f) =>
-          f.id === id ? { ...f, status: 'failed', error: 'Generation failed' } : f,
+          f.id === id ? { ...f, status: 'failed', error: reason, errorKind: kind } : f,
         ),
       )
       setFailedCount((c) => c + 1)
     }
+
+    const current = files.find((f) => f.id === id)
+    if (!current) return false
+
+    if (current.unpaired) {
+      const jpgName = current.file.name.replace(/\.[^.]+$/, '.jpg')
+      addHistory(`Skipped ${current.file.name}: no JPG preview (upload ${jpgName}).`)
+      markFailed('unsupported', `${ERROR_KIND_LABELS.unsupported}: no JPG preview – upload ${jpgName}`)
+      return false
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const partial = await generateMetadata(current)
+        setFiles((prev) => prev.map((f) => (f.id === id ? applyGenerated(f, partial) : f)))
+        setGeneratedCount((c) => c + 1)
+        if (similarHandling === 'copy' && current.similarGroup) copyToGroup(current, partial)
+        return true
+      } catch (err: any) {
+        if (err instanceof GenerationStoppedError) {
+          setFiles((prev) =>
+            prev.map((f) => (f.id === id ? { ...f, status: 'pending', error: '' } : f)),
+          )
+          return false
+        }
+
+        const kind = classifyError(err)
+        const reason = describeError(err)
+
+        if (isTransient(kind) && attempt < MAX_ATTEMPTS && !stopRequestedRef.current) {
+          // exponential backoff with full jitter: 1s, 2s, 4s … (+ random up to the same)
+          const base = 1000 * 2 ** (attempt - 1)
+          const delay = base + Math.random() * base
+          addHistory(
+            `${current.file.name}: ${reason}. Retrying in ${Math.round(delay / 1000)}s (attempt ${
+              attempt + 1
+            }/${MAX_ATTEMPTS}).`,
+          )
+          await new Promise((resolve) => setTimeout(resolve, delay))
+          continue
+        }
+
+        console.error(err)
+        addHistory(`Generation failed for ${current.file.name}: ${reason}`)
+        markFailed(kind, reason)
+        return false
+      }
+    }
   }
 
   /** ---- Generate All / Stop ---- */
   const handleGenerateAll = async () => {
-    const hasKey = apiKeys.some((k) => k.trim().length > 0)
+    const hasKey = !provider.needsKey || apiKeys.some((k) => k.trim().length > 0)
 
     // যদি এখন জেনারেট চলছে → এই ক্লিকটাকে STOP হিসেবে ধরব
     if (isGeneratingAll) {
       setStopRequested(true)
       stopRequestedRef.current = true
       addHistory(
-        'Stop requested. Current file will finish and remaining files will stay pending.',
+        'Stop requested. Running files will finish and remaining files will stay pending.',
       )
       return
     }
 
     // নতুনভাবে জেনারেশন শুরু
     if (!hasKey) {
-      alert('Please save at least one Gemini API key before generating.')
+      alert(`Please save at least one ${provider.label} API key before generating.`)
       return
     }
 
+    const pending = files.filter(
+      (f) =>
+        f.status === 'pending' ||
+        f.status === 'failed' ||
+        (f.imported && importedHandling === 'hint'),
+    )
+    const startMessage = `Generation started for all files (${concurrency} in parallel).`
+    if (similarHandling !== 'copy') {
+      await runGeneration(pending, startMessage)
+      return
+    }
+
+    // copy mode: one file per near-duplicate group, the others get its metadata. Files that
+    // haven't failed go first; when one fails, the next member of its group is tried.
+    const groups = new Map<string, FileItem[]>()
+    pending.forEach((f) => {
+      const key = f.similarGroup || f.id
+      groups.set(key, [...(groups.get(key) || []), f])
+    })
+    const rank = (f: FileItem) => (f.status === 'failed' || f.unpaired ? 1 : 0)
+    const queues = new Map(
+      Array.from(groups.values()).map((members) => {
+        const queue = [...members].sort((a, b) => rank(a) - rank(b))
+        return [queue[0].id, queue]
+      }),
+    )
+    await runGeneration(
+      Array.from(queues.values()).map((queue) => queue[0]),
+      startMessage,
+      async (leader, i) => {
+        for (const member of queues.get(leader.id)!) {
+          if ((await generateForItem(member.id, i)) || stopRequestedRef.current) return
+        }
+      },
+    )
+  }
+
+  // shared by Generate All, the retry-by-error-type actions and Regenerate selected
+  const runGeneration = async (
+    items: FileItem[],
+    startMessage: string,
+    generate = async (item: FileItem, i: number) => {
+      await generateForItem(item.id, i)
+    },
+  ) => {
+    undoStack.checkpoint(`Generate ${items.length} file(s)`)
     setIsGeneratingAll(true)
     setStopRequested(false)
     stopRequestedRef.current = false
     setGeneratedCount(0)
     setFailedCount(0)
-    addHistory('Generation started for all files.')
-
-    const pending = files.filter((f) => f.status === 'pending' || f.status === 'failed')
-    let stoppedByUser = false
+    addHistory(startMessage)
 
-    for (let i = 0; i < pending.length; i++) {
-      if (stopRequestedRef.current) {
-        stoppedByUser = true
-        addHistory('Generation stopped by user.')
-        break
-      }
-      // eslint-disable-next-line no-await-in-loop
-      await generateForItem(pending[i].id, i)
+    const stoppedEarly = await runPool(
+      items,
+      concurrency,
+      generate,
+      () => stopRequestedRef.current,
+    )
+    const stoppedByUser = stoppedEarly || stopRequestedRef.current
+    if (!stoppedByUser && uniqueTitles && mode === 'metadata') {
+      await fixTitleCollisions()
     }
 
     setIsGeneratingAll(false)
     setStopRequested(false)
     stopRequestedRef.current = false
 
-    if (!stoppedByUser) {
-      addHistory('Generation finished.')
-    }
+    addHistory(stoppedByUser ? 'Generation stopped by user.' : 'Generation finished.')
   }
 
+  // resolves with the list once every queued update is applied (filesRef can lag a render)
+  const readLatestFiles = () =>
+    new Promise<FileItem[]>((resolve) =>
+      setFiles((prev) => {
+        resolve(prev)
+        return prev
+      }),
+    )
+
+  /** ---- Title uniqueness: later files in a collision get a new, distinct title ---- */
+  const fixTitleCollisions = async () => {
+    const latest = await readLatestFiles()
+    const byId = new Map(latest.map((f) => [f.id, f]))
+    const targets = findTitleCollisions(latest.filter((f) => f.status === 'success')).flatMap(
+      (collision) => {
+        const avoid = collision.ids.map((id) => byId.get(id)!.title)
+        return collision.ids.slice(1).map((id) => ({ item: byId.get(id)!, avoid }))
+      },
+    )
+    if (!targets.length) return
+
+    addHistory(`${targets.length} title(s) collide with another file's. Requesting distinct titles.`)
+    await runPool(
+      targets,
+      concurrency,
+      async ({ item, avoid }) => {
+        try {
+          const partial = await generateMetadata(item, requestDistinctTitle(avoid))
+          setFiles((prev) => prev.map((f) => (f.id === item.id ? applyGenerated(f, partial) : f)))
+        } catch (err: any) {
+          if (err instanceof GenerationStoppedError) return
+          addHistory(`Could not get a distinct title for ${item.file.name}: ${describeError(err)}`)
+        }
+      },
+      () => stopRequestedRef.current,
+    )
+  }
+
+  const handleFixTitles = async () => {
+    if (isGeneratingAll) return
+    undoStack.checkpoint('Request distinct titles')
+    setIsGeneratingAll(true)
+    stopRequestedRef.current = false
+    await fixTitleCollisions()
+    setIsGeneratingAll(false)
+    stopRequestedRef.current = false
+  }
+
+  const handleRetryFailed = (kind: ErrorKind) => {
+    if (isGeneratingAll) return
+    const targets = files.filter((f) => f.status === 'failed' && f.errorKind === kind)
+    if (!targets.length) return
+    void runGeneration(
+      targets,
+      `Retrying ${targets.length} failed file(s) of type "${ERROR_KIND_LABELS[kind]}".`,
+    )
+  }
+
+  const failedKinds = Array.from(
+    files.reduce((acc, f) => {
+      if (f.status === 'failed' && f.errorKind) {
+        acc.set(f.errorKind, (acc.get(f.errorKind) || 0) + 1)
+      }
+      return acc
+    }, new Map<ErrorKind, number>()),
+  )
+
   const handleRegenerate = (id: string) => {
     const index = files.findIndex((f) => f.id === id)
     if (index === -1) return
+    undoStack.checkpoint(`Regenerate ${files[index].file.name}`)
     void generateForItem(id, index)
   }
 
+  /** ---- Validation (re-runs on every edit / platform change) ---- */
+  // keyed on titles: edits to keywords or descriptions don't re-run the O(n²) comparison
+  const titleKey = files.map((f) => `${f.id}\0${f.title}`).join('\n')
+  const titleIssues = useMemo(() => validateBatch(files), [titleKey])
+  const issuesById = useMemo(() => {
+    const map = new Map<string, ValidationIssue[]>()
+    files.forEach((f) =>
+      map.set(f.id, [...validateItem(f, platform, flagDefaults), ...(titleIssues.get(f.id) || [])]),
+    )
+    return map
+  }, [files, platform, flagDefaults, titleIssues])
+
+  const similarGroups = useMemo(() => {
+    const map = new Map<string, FileItem[]>()
+    files.forEach((f) => {
+      if (f.similarGroup) map.set(f.similarGroup, [...(map.get(f.similarGroup) || []), f])
+    })
+    return map
+  }, [files])
+
+  const similarNamesOf = (item: FileItem) =>
+    item.similarGroup
+      ? (similarGroups.get(item.similarGroup) || [])
+          .filter((f) => f.id !== item.id)
+          .map((f) => f.file.name)
+      : []
+
+  const invalidFiles = files.filter((f) => hasErrors(issuesById.get(f.id) || []))
+  // exact repeats are errors and already in invalidFiles
+  const nearTitleFiles = files.filter((f) =>
+    (titleIssues.get(f.id) || []).some((i) => i.severity === 'warning'),
+  )
+
   /** ---- CSV ZIP export ---- */
   const handleExportCsv = async () => {
     if (!files.length) {
@@ -689,33 +1551,33 @@ No explanation. No markdown. No extra text. Only raw JSON.
       return
     }
 
-    const buildCsv = (items: FileItem[]): string => {
-      const header = ['filename', 'title', 'keywords', 'description', 'platform']
-      const rows = items.map((f) => [
-        f.file.name,
-        f.title,
-        f.keywords,
-        f.description,
-        platform,
-      ])
-
-      const lines = [header, ...rows].map((r) =>
-        r
-          .map((v) =>
-            `"${String(v || '')
-              .replace(/"/g, '""')
-              .replace(/\r?\n/g, ' ')}"`,
-          )
-          .join(','),
-      )
+    if (invalidFiles.length || nearTitleFiles.length) {
+      setExportCheckOpen(true)
+      return
+    }
+
+    await exportCsvZip(files)
+  }
 
-      return lines.join('\r\n') + '\r\n'
+  const handleExportSkippingInvalid = async () => {
+    const skip = new Set(invalidFiles.map((f) => f.id))
+    const valid = files.filter((f) => !skip.has(f.id))
+    setExportCheckOpen(false)
+    if (!valid.length) {
+      alert('No valid rows to export.')
+      return
     }
+    await exportCsvZip(valid)
+    addHistory(`${skip.size} invalid row(s) skipped in export.`)
+  }
 
-    const aiFiles = files.filter((f) => /\.ai$/i.test(f.file.name))
-    const epsFiles = files.filter((f) => /\.eps$/i.test(f.file.name))
-    const svgFiles = files.filter((f) => /\.svg$/i.test(f.file.name))
-    const otherFiles = files.filter(
+  const exportCsvZip = async (items: FileItem[]) => {
+    const buildCsv = (rows: FileItem[]): string => buildPlatformCsv(platform, rows, flagDefaults)
+
+    const aiFiles = items.filter((f) => /\.ai$/i.test(f.file.name))
+    const epsFiles = items.filter((f) => /\.eps$/i.test(f.file.name))
+    const svgFiles = items.filter((f) => /\.svg$/i.test(f.file.name))
+    const otherFiles = items.filter(
       (f) =>
         !/\.ai$/i.test(f.file.name) &&
         !/\.eps$/i.test(f.file.name) &&
@@ -727,23 +1589,210 @@ No explanation. No markdown. No extra text. Only raw JSON.
     zip.file('EPS.csv', buildCsv(epsFiles))
     zip.file('SVG.csv', buildCsv(svgFiles))
 
-    const generalSource = otherFiles.length ? otherFiles : files
+    const generalSource = otherFiles.length ? otherFiles : items
     zip.file('General.csv', buildCsv(generalSource))
 
     const blob = await zip.generateAsync({ type: 'blob' })
     saveAs(blob, 'metadata_csv.zip')
 
-    addHistory('CSV exported as metadata_csv.zip (AI, EPS, SVG, General).')
+    addHistory(
+      `CSV exported as metadata_csv.zip (AI, EPS, SVG, General) in ${PLATFORM_EXPORTERS[platform].label} format.`,
+    )
   }
 
-  const updateFileField = (
-    id: string,
-    field: 'title' | 'keywords' | 'description',
-    value: string,
-  ) => {
+  /** ---- Tagged files ZIP export (XMP/IPTC, PNG iTXt, SVG metadata) ---- */
+  const handleExportTagged = async () => {
+    const ready = files.filter((f) => f.status === 'success')
+    if (!ready.length) {
+      alert('No generated metadata to write yet.')
+      return
+    }
+
+    const zip = new JSZip()
+    const skipped: string[] = []
+
+    for (const item of ready) {
+      try {
+        const bytes = await tagFile(item.file, {
+          title: item.title,
+          keywords: splitKeywords(item.keywords),
+          description: item.description,
+        })
+        if (bytes) {
+          zip.file(item.file.name, bytes)
+        } else {
+          skipped.push(item.file.name)
+        }
+      } catch (err) {
+        console.error(err)
+        skipped.push(item.file.name)
+      }
+    }
+
+    const written = ready.length - skipped.length
+    if (!written) {
+      alert('None of the ready files are JPEG, PNG or SVG.')
+      return
+    }
+
+    const blob = await zip.generateAsync({ type: 'blob' })
+    saveAs(blob, 'tagged_files.zip')
+
+    addHistory(
+      `Tagged files exported as tagged_files.zip (${written} file(s)${
+        skipped.length ? `, skipped ${skipped.length}: ${skipped.slice(0, 5).join(', ')}` : ''
+      }).`,
+    )
+  }
+
+  /** ---- Prompts ZIP export (CSV + TXT) ---- */
+  const handleExportPrompts = async () => {
+    const withPrompts = files.filter((f) => f.prompt.trim())
+    if (!withPrompts.length) {
+      alert('No generated prompts to export.')
+      return
+    }
+
+    const zip = new JSZip()
+    zip.file('prompts.csv', buildPromptsCsv(withPrompts))
+    zip.file('prompts.txt', buildPromptsTxt(withPrompts))
+
+    const blob = await zip.generateAsync({ type: 'blob' })
+    saveAs(blob, 'prompts.zip')
+
+    addHistory(`Prompts exported as prompts.zip (${withPrompts.length} files).`)
+  }
+
+  /** ---- CSV import (merge onto uploaded files by filename) ---- */
+  const handleImportFiles = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || [])
+    e.target.value = ''
+    if (!selected.length) return
+    if (!files.length) {
+      alert('Upload the files first, then import their metadata CSV.')
+      return
+    }
+
+    try {
+      const { rows, sources } = await readImportFiles(selected)
+      if (!rows.length) {
+        alert('No metadata rows found. The CSV needs a Filename column.')
+        return
+      }
+      setImportPlan(planImport(files, rows, sources))
+    } catch (err) {
+      console.error(err)
+      alert('Could not read the selected CSV/ZIP file.')
+    }
+  }
+
+  const handleApplyImport = (overwrite: boolean) => {
+    if (!importPlan) return
+    const newlyReady = applyImport(files, importPlan, overwrite).filter(
+      (f, i) => f.status === 'success' && files[i].status !== 'success',
+    ).length
+    undoStack.checkpoint('Import metadata')
+    setFiles((prev) => applyImport(prev, importPlan, overwrite))
+    setGeneratedCount((c) => c + newlyReady)
+
+    let conflictNote = ''
+    if (importPlan.report.conflicts.length) {
+      conflictNote = overwrite ? ' (conflicts overwritten)' : ' (kept current edits)'
+    }
+    addHistory(
+      `Imported metadata for ${importPlan.report.matched} file(s) from ${importPlan.sources.join(
+        ', ',
+      )}${conflictNote}.`,
+    )
+    setImportPlan(null)
+  }
+
+  // typing into one field is an edit session; it ends when another field is edited or
+  // the field loses focus, and what was typed is kept as an "edited" version
+  const endEditSession = () => {
+    const session = editSessionRef.current
+    if (!session) return
+    editSessionRef.current = null
+    setFiles((prev) =>
+      prev.map((f) => (f.id === session.id ? { ...f, versions: recordVersion(f, 'edited') } : f)),
+    )
+  }
+
+  const updateFileField = (id: string, field: EditableField, value: string) => {
+    const key = `${id}:${field}`
+    if (editSessionRef.current && editSessionRef.current.key !== key) endEditSession()
+    editSessionRef.current = { id, key }
+    undoStack.checkpoint(`Edit ${field}`, key)
     setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, [field]: value } : f)))
   }
 
+  // slot 0 = primary, 1 = secondary (Shutterstock); '' clears the slot
+  const updateFileCategory = (id: string, slot: number, value: string) => {
+    undoStack.checkpoint('Change category')
+    setFiles((prev) =>
+      prev.map((f) => {
+        if (f.id !== id) return f
+        const categories = [...(f.categories || [])]
+        categories[slot] = value
+        return { ...f, categories: categories.filter(Boolean) }
+      }),
+    )
+  }
+
+  const updateFileFlag = <K extends keyof FileFlags>(id: string, key: K, value: FileFlags[K]) => {
+    undoStack.checkpoint('Change flags', `${id}:flags:${key}`)
+    setFiles((prev) =>
+      prev.map((f) => (f.id === id ? { ...f, flags: { ...f.flags, [key]: value } } : f)),
+    )
+  }
+
+  const resetFileFlags = (id: string) => {
+    undoStack.checkpoint('Reset flags')
+    setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, flags: undefined } : f)))
+  }
+
+  const handleRevertVersion = (id: string, version: MetadataVersion) => {
+    undoStack.checkpoint('Revert to previous version')
+    setFiles((prev) => prev.map((f) => (f.id === id ? revertToVersion(f, version) : f)))
+  }
+
+  const rowActions = useStableRowActions({
+    onFieldChange: updateFileField,
+    onFieldBlur: endEditSession,
+    onCategoryChange: updateFileCategory,
+    onFlagChange: updateFileFlag,
+    onResetFlags: resetFileFlags,
+    onRevertVersion: handleRevertVersion,
+    onExcludeFromGroup: handleExcludeFromGroup,
+    onRegenerate: handleRegenerate,
+  })
+
+  /** ---- Undo / redo (not while generation is writing to the list) ---- */
+  const handleUndo = () => {
+    if (isGeneratingAll) return
+    const label = undoStack.undo()
+    if (label) addHistory(`Undo: ${label}`)
+  }
+
+  const handleRedo = () => {
+    if (isGeneratingAll) return
+    const label = undoStack.redo()
+    if (label) addHistory(`Redo: ${label}`)
+  }
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return
+      // nothing of ours to undo → leave the browser's own text undo alone
+      if (!(e.shiftKey ? undoStack.redoLabel : undoStack.undoLabel)) return
+      e.preventDefault()
+      if (e.shiftKey) handleRedo()
+      else handleUndo()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  })
+
   /** ---- Login screen ---- */
   if (!isLoggedIn) {
     return (
@@ -801,6 +1850,21 @@ No explanation. No markdown. No extra text. Only raw JSON.
         </div>
       </header>
 
+      {pendingRestore && (
+        <div className="restore-banner">
+          <span>
+            Previous session found: {pendingRestore.files.length} files, saved{' '}
+            {new Date(pendingRestore.savedAt).toLocaleString()}.
+          </span>
+          <button className="primary-btn" onClick={handleRestoreSession}>
+            Restore
+          </button>
+          <button className="secondary-btn" onClick={handleDiscardSession}>
+            Discard
+          </button>
+        </div>
+      )}
+
       {/* Main Layout */}
       <div className="main-layout">
         {/* Left Column */}
@@ -811,19 +1875,85 @@ No explanation. No markdown. No extra text. Only raw JSON.
               <h2 className="card-title">Generation Controls</h2>
 
               <label className="slider-label" style={{ marginTop: 4 }}>
-                Gemini API keys (max {MAX_KEYS})
+                Model provider
               </label>
-              <div className="api-keys-grid">
-                {apiKeys.map((key, idx) => (
+              <select
+                className="text-input full"
+                value={providerId}
+                disabled={isGeneratingAll}
+                onChange={(e) => setProviderId(e.target.value as ProviderId)}
+              >
+                {Object.values(PROVIDERS).map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+
+              {providerId !== 'mock' && (
+                <>
+                  <label className="slider-label">Model</label>
                   <input
-                    key={idx}
-                    type="password"
-                    className="text-input full api-key-input"
-                    placeholder={`Gemini API key ${idx + 1}`}
-                    value={key}
-                    onChange={(e) => handleApiKeyChange(idx, e.target.value)}
+                    className="text-input full"
+                    list={providerId === 'gemini' ? 'gemini-models' : undefined}
+                    value={providerConfig.model}
+                    onChange={(e) => updateProviderConfig('model', e.target.value)}
+                    placeholder={provider.defaultConfig.model}
                   />
-                ))}
+                  <datalist id="gemini-models">
+                    {GEMINI_MODELS.map((m) => (
+                      <option key={m} value={m} />
+                    ))}
+                  </datalist>
+                </>
+              )}
+
+              {(providerId === 'openai' || providerId === 'ollama') && (
+                <>
+                  <label className="slider-label">Base URL</label>
+                  <input
+                    className="text-input full"
+                    value={providerConfig.baseUrl}
+                    onChange={(e) => updateProviderConfig('baseUrl', e.target.value)}
+                    placeholder={provider.defaultConfig.baseUrl}
+                  />
+                </>
+              )}
+
+              <label className="slider-label" style={{ marginTop: 4 }}>
+                {provider.needsKey
+                  ? `${provider.label} API keys (max ${MAX_KEYS})`
+                  : `API keys (not needed for ${provider.label})`}
+              </label>
+              <div className="api-keys-grid">
+                {apiKeys.map((key, idx) => {
+                  const health = keyHealth[key.trim()]
+                  return (
+                    <div key={idx} className="api-key-line">
+                      <input
+                        type="password"
+                        className="text-input full api-key-input"
+                        placeholder={`API key ${idx + 1}`}
+                        value={key}
+                        onChange={(e) => handleApiKeyChange(idx, e.target.value)}
+                      />
+                      {health && (
+                        <span
+                          className={`key-status key-status-${health.state}`}
+                          title={health.lastError || ''}
+                        >
+                          {health.state === 'active' && 'Active'}
+                          {health.state === 'cooling' &&
+                            `Cooling until ${new Date(
+                              health.cooldownUntil,
+                            ).toLocaleTimeString()}`}
+                          {health.state === 'invalid' && 'Invalid'}
+                          {` · ${health.requests} req`}
+                        </span>
+                      )}
+                    </div>
+                  )
+                })}
               </div>
 
               <button className="primary-btn" style={{ marginTop: 6 }} onClick={handleSaveApiKeys}>
@@ -831,6 +1961,45 @@ No explanation. No markdown. No extra text. Only raw JSON.
               </button>
             </div>
 
+            <div className="slider-group" style={{ marginTop: 10 }}>
+              <label className="slider-label">
+                Parallel files: <strong>{concurrency}</strong>
+              </label>
+              <input
+                type="range"
+                min={1}
+                max={10}
+                value={concurrency}
+                disabled={isGeneratingAll}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+              />
+            </div>
+
+            <div className="slider-group">
+              <label className="slider-label">
+                Requests per minute per key: <strong>{requestsPerMinute}</strong>
+              </label>
+              <input
+                type="range"
+                min={1}
+                max={60}
+                value={requestsPerMinute}
+                onChange={(e) => setRequestsPerMinute(Number(e.target.value))}
+              />
+            </div>
+
+            <div className="slider-group">
+              <label className="slider-label">Files with existing metadata</label>
+              <select
+                className="text-input full"
+                value={importedHandling}
+                onChange={(e) => setImportedHandling(e.target.value as ImportedHandling)}
+              >
+                <option value="skip">Skip (keep imported metadata)</option>
+                <option value="hint">Regenerate, using it as a hint</option>
+              </select>
+            </div>
+
             <div className="card-row toggle-row" style={{ marginTop: 10 }}>
               <button
                 className={'toggle-btn' + (mode === 'metadata' ? ' toggle-btn-active' : '')}
@@ -847,6 +2016,61 @@ No explanation. No markdown. No extra text. Only raw JSON.
             </div>
           </section>
 
+          {/* Presets */}
+          <section className="card">
+            <h2 className="card-title">Presets</h2>
+            <select
+              className="text-input full"
+              value={selectedPreset}
+              onChange={(e) => handleSelectPreset(e.target.value)}
+            >
+              <option value="">{presets.length ? 'Choose a preset…' : 'No presets saved'}</option>
+              {presets.map((p) => (
+                <option key={p.name} value={p.name}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+            <div className="retry-row" style={{ marginTop: 8 }}>
+              <button className="small-btn" type="button" onClick={() => handleSavePreset(true)}>
+                Save as…
+              </button>
+              <button
+                className="small-btn"
+                type="button"
+                disabled={!selectedPreset}
+                onClick={() => handleSavePreset(false)}
+              >
+                Update
+              </button>
+              <button
+                className="small-btn"
+                type="button"
+                disabled={!selectedPreset}
+                onClick={handleDeletePreset}
+              >
+                Delete
+              </button>
+              <button className="small-btn" type="button" onClick={handleExportPresets}>
+                Export JSON
+              </button>
+              <button
+                className="small-btn"
+                type="button"
+                onClick={() => presetInputRef.current?.click()}
+              >
+                Import JSON
+              </button>
+              <input
+                ref={presetInputRef}
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={handleImportPresets}
+              />
+            </div>
+          </section>
+
           {/* Advance Control */}
           <section className="card">
             <h2 className="card-title">Advance Control</h2>
@@ -885,6 +2109,39 @@ No explanation. No markdown. No extra text. Only raw JSON.
                 Vecteezy
               </button>
             </div>
+
+            <p className="small-caption">Defaults for every file (each row can override):</p>
+            <div className="flag-row">
+              {(Object.keys(FLAG_LABELS) as BooleanFlag[]).map((key) => (
+                <label key={key}>
+                  <input
+                    type="checkbox"
+                    checked={flagDefaults[key]}
+                    onChange={(e) =>
+                      setFlagDefaults((prev) => ({ ...prev, [key]: e.target.checked }))
+                    }
+                  />{' '}
+                  {FLAG_LABELS[key]}
+                </label>
+              ))}
+            </div>
+            <input
+              className="text-input full"
+              placeholder="Release file names, comma separated"
+              value={flagDefaults.releases}
+              onChange={(e) => setFlagDefaults((prev) => ({ ...prev, releases: e.target.value }))}
+            />
+            <div className="toggle-line">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={suggestReleases}
+                  onChange={(e) => setSuggestReleases(e.target.checked)}
+                />{' '}
+                Ask the model to flag people and recognizable property
+              </label>
+            </div>
+            <p className="small-caption">Vectors are marked as illustrations automatically.</p>
           </section>
 
           {/* Sliders */}
@@ -941,6 +2198,69 @@ No explanation. No markdown. No extra text. Only raw JSON.
               </label>
             </div>
 
+            <div className="slider-group">
+              <label className="slider-label">Keyword phrases</label>
+              <select
+                className="text-input full"
+                value={keywordPolicySetting}
+                onChange={(e) =>
+                  setKeywordPolicySetting(e.target.value as KeywordPolicy | 'platform')
+                }
+              >
+                <option value="platform">
+                  Platform default ({KEYWORD_POLICY_LABELS[PLATFORM_KEYWORD_POLICY[platform]]})
+                </option>
+                {(Object.keys(KEYWORD_POLICY_LABELS) as KeywordPolicy[]).map((p) => (
+                  <option key={p} value={p}>
+                    {KEYWORD_POLICY_LABELS[p]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="slider-group">
+              <label className="slider-label">When keywords come up short</label>
+              <select
+                className="text-input full"
+                value={paddingMode}
+                onChange={(e) => setPaddingMode(e.target.value as PaddingMode)}
+              >
+                {(Object.keys(PADDING_MODE_LABELS) as PaddingMode[]).map((m) => (
+                  <option key={m} value={m}>
+                    {PADDING_MODE_LABELS[m]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {paddingMode === 'pool' &&
+              (Object.keys(MEDIA_KIND_LABELS) as MediaKind[]).map((kind) => (
+                <div className="slider-group" key={kind}>
+                  <label className="slider-label">{MEDIA_KIND_LABELS[kind]} word pool</label>
+                  <textarea
+                    className="text-area"
+                    value={fillerPoolText[kind]}
+                    onChange={(e) =>
+                      setFillerPoolText((prev) => ({ ...prev, [kind]: e.target.value }))
+                    }
+                  />
+                </div>
+              ))}
+
+            <div className="slider-group">
+              <label className="slider-label">Near-duplicate files</label>
+              <select
+                className="text-input full"
+                value={similarHandling}
+                onChange={(e) => setSimilarHandling(e.target.value as SimilarHandling)}
+              >
+                {(Object.keys(SIMILAR_HANDLING_LABELS) as SimilarHandling[]).map((h) => (
+                  <option key={h} value={h}>
+                    {SIMILAR_HANDLING_LABELS[h]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <p className="small-caption">
               Title cleaning: removes duplicate words, numbers, #, =, dots and other
               symbols. First letter Capital, others small, single spaces between words.
@@ -1007,6 +2327,80 @@ No explanation. No markdown. No extra text. Only raw JSON.
                 onChange={(e) => setSuffixText(e.target.value)}
               />
             )}
+
+            <div className="toggle-line">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={uniqueTitles}
+                  onChange={(e) => setUniqueTitles(e.target.checked)}
+                />{' '}
+                Re-request titles that repeat another file's
+              </label>
+            </div>
+          </section>
+
+          {/* Keyword variants */}
+          <section className="card">
+            <h2 className="card-title">Keyword Variants</h2>
+
+            <div className="toggle-line">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={normalizeKeywords}
+                  onChange={(e) => setNormalizeKeywords(e.target.checked)}
+                />{' '}
+                Merge plurals, US/UK spellings and synonyms
+              </label>
+            </div>
+            {normalizeKeywords && (
+              <>
+                <textarea
+                  className="text-area"
+                  placeholder={'Your groups, one per line\nkeep, merge, merge'}
+                  value={customSynonymText}
+                  onChange={(e) => setCustomSynonymText(e.target.value)}
+                />
+                <details className="small-caption">
+                  <summary>Built-in groups</summary>
+                  <pre className="blocklist-preview">{BUILT_IN_SYNONYM_GROUPS_TEXT.trim()}</pre>
+                </details>
+              </>
+            )}
+          </section>
+
+          {/* Blocked terms */}
+          <section className="card">
+            <h2 className="card-title">Blocked Terms</h2>
+
+            <div className="toggle-line">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={blocklistEnabled}
+                  onChange={(e) => setBlocklistEnabled(e.target.checked)}
+                />{' '}
+                Remove brands, trademarks and spam terms
+              </label>
+            </div>
+            {blocklistEnabled && (
+              <>
+                <textarea
+                  className="text-area"
+                  placeholder={
+                    'Your terms, one per line\nterm => replacement\n~term only on its own\n' +
+                    '[adobe] for one platform'
+                  }
+                  value={customBlocklistText}
+                  onChange={(e) => setCustomBlocklistText(e.target.value)}
+                />
+                <details className="small-caption">
+                  <summary>Built-in list</summary>
+                  <pre className="blocklist-preview">{BUILT_IN_BLOCKLIST_TEXT.trim()}</pre>
+                </details>
+              </>
+            )}
           </section>
 
           {/* Footer */}
@@ -1092,6 +2486,38 @@ No explanation. No markdown. No extra text. Only raw JSON.
                 >
                   Export CSV (ZIP later)
                 </button>
+                <button
+                  className="outline-btn"
+                  onClick={handleExportTagged}
+                  disabled={!files.some((f) => f.status === 'success')}
+                >
+                  Export tagged files
+                </button>
+                {mode === 'prompt' && (
+                  <button
+                    className="outline-btn"
+                    onClick={handleExportPrompts}
+                    disabled={!files.some((f) => f.prompt.trim())}
+                  >
+                    Export Prompts
+                  </button>
+                )}
+                <button
+                  className="outline-btn"
+                  type="button"
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={!files.length}
+                >
+                  Import CSV
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".csv,.zip,text/csv"
+                  multiple
+                  hidden
+                  onChange={handleImportFiles}
+                />
                 <button
                   className="secondary-btn"
                   type="button"
@@ -1103,9 +2529,183 @@ No explanation. No markdown. No extra text. Only raw JSON.
             </div>
           </section>
 
+          {/* Export summary (validation) */}
+          {exportCheckOpen && (
+            <section className="card export-check-card">
+              <h2 className="card-title">Export check: {PLATFORM_EXPORTERS[platform].label}</h2>
+              <p className="small-caption">
+                {invalidFiles.length} of {files.length} row(s) break the platform rules.
+                {titleIssues.size > 0 &&
+                  ` ${titleIssues.size} row(s) share an exact or near-identical title.`}
+              </p>
+              <ul className="import-list">
+                {invalidFiles.slice(0, 200).map((f) => (
+                  <li key={f.id}>
+                    <strong>{f.file.name}</strong>:{' '}
+                    {(issuesById.get(f.id) || [])
+                      .filter((i) => i.severity === 'error')
+                      .map((i) => i.message)
+                      .join('; ')}
+                  </li>
+                ))}
+              </ul>
+              {nearTitleFiles.length > 0 && (
+                <details>
+                  <summary>Near-identical titles ({nearTitleFiles.length})</summary>
+                  <ul className="import-list">
+                    {nearTitleFiles.slice(0, 200).map((f) => (
+                      <li key={f.id}>
+                        <strong>{f.file.name}</strong>:{' '}
+                        {(titleIssues.get(f.id) || []).map((i) => i.message).join('; ')}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+              <div className="import-actions">
+                {titleIssues.size > 0 && (
+                  <button
+                    className="secondary-btn"
+                    type="button"
+                    disabled={isGeneratingAll}
+                    onClick={handleFixTitles}
+                  >
+                    Request distinct titles
+                  </button>
+                )}
+                <button
+                  className="primary-btn"
+                  type="button"
+                  onClick={handleExportSkippingInvalid}
+                >
+                  {invalidFiles.length
+                    ? `Skip invalid rows & export (${files.length - invalidFiles.length})`
+                    : 'Export'}
+                </button>
+                <button
+                  className="secondary-btn"
+                  type="button"
+                  onClick={() => setExportCheckOpen(false)}
+                >
+                  Cancel (fix first)
+                </button>
+              </div>
+            </section>
+          )}
+
           {/* Files & Metadata */}
           <section className="card files-card">
             <h2 className="card-title">Files & Metadata</h2>
+            {importPlan && (
+              <div className="import-report">
+                <div className="import-report-title">
+                  Import from {importPlan.sources.join(', ')}
+                </div>
+                <div className="small-caption">
+                  Matched: {importPlan.report.matched} | Files missing from CSV:{' '}
+                  {importPlan.report.missingFromCsv.length} | Rows with no file:{' '}
+                  {importPlan.report.rowsWithoutFile.length} | Conflicts:{' '}
+                  {importPlan.report.conflicts.length}
+                </div>
+                {importPlan.report.missingFromCsv.length > 0 && (
+                  <details>
+                    <summary>Files missing from CSV</summary>
+                    <ul className="import-list">
+                      {importPlan.report.missingFromCsv.map((name) => (
+                        <li key={name}>{name}</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                {importPlan.report.rowsWithoutFile.length > 0 && (
+                  <details>
+                    <summary>CSV rows with no uploaded file</summary>
+                    <ul className="import-list">
+                      {importPlan.report.rowsWithoutFile.map((name) => (
+                        <li key={name}>{name}</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                {importPlan.report.conflicts.length > 0 && (
+                  <details open>
+                    <summary>Rows that differ from current edits</summary>
+                    <ul className="import-list">
+                      {importPlan.report.conflicts.map((c, idx) => (
+                        <li key={idx}>
+                          <strong>{c.filename}</strong> · {c.field}: “{c.current}” → “
+                          {c.imported}”
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                <div className="import-actions">
+                  <button
+                    className="primary-btn"
+                    type="button"
+                    disabled={!importPlan.report.matched}
+                    onClick={() => handleApplyImport(true)}
+                  >
+                    Apply (overwrite conflicts)
+                  </button>
+                  {importPlan.report.conflicts.length > 0 && (
+                    <button
+                      className="outline-btn"
+                      type="button"
+                      onClick={() => handleApplyImport(false)}
+                    >
+                      Apply (keep my edits)
+                    </button>
+                  )}
+                  <button
+                    className="secondary-btn"
+                    type="button"
+                    onClick={() => setImportPlan(null)}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+            {(undoStack.undoLabel || undoStack.redoLabel) && (
+              <div className="retry-row">
+                <button
+                  className="small-btn"
+                  type="button"
+                  disabled={!undoStack.undoLabel || isGeneratingAll}
+                  title="Ctrl+Z"
+                  onClick={handleUndo}
+                >
+                  Undo{undoStack.undoLabel ? `: ${undoStack.undoLabel}` : ''}
+                </button>
+                <button
+                  className="small-btn"
+                  type="button"
+                  disabled={!undoStack.redoLabel || isGeneratingAll}
+                  title="Ctrl+Shift+Z"
+                  onClick={handleRedo}
+                >
+                  Redo{undoStack.redoLabel ? `: ${undoStack.redoLabel}` : ''}
+                </button>
+              </div>
+            )}
+            {failedKinds.length > 0 && (
+              <div className="retry-row">
+                <span className="small-caption">Retry all failed:</span>
+                {failedKinds.map(([kind, count]) => (
+                  <button
+                    key={kind}
+                    className="small-btn"
+                    type="button"
+                    disabled={isGeneratingAll}
+                    onClick={() => handleRetryFailed(kind)}
+                  >
+                    {ERROR_KIND_LABELS[kind]} ({count})
+                  </button>
+                ))}
+              </div>
+            )}
             {!files.length && (
               <p className="empty-state">
                 No files uploaded yet. Upload files to see preview, title, keywords and
@@ -1113,72 +2713,24 @@ No explanation. No markdown. No extra text. Only raw JSON.
               </p>
             )}
 
-            {files.map((item) => (
-              <div key={item.id} className="file-row">
-                <div className="file-preview">
-                  {item.previewUrl ? (
-                    <img src={item.previewUrl} alt={item.file.name} />
-                  ) : (
-                    <div className="file-icon-fallback">
-                      <span>{item.file.name.split('.').pop()?.toUpperCase()}</span>
-                    </div>
-                  )}
-                </div>
-                <div className="file-meta">
-                  <div className="file-name">{item.file.name}</div>
-                  <div className="field-group">
-                    <label>Title</label>
-                    <input
-                      className="text-input full"
-                      value={item.title}
-                      onChange={(e) =>
-                        updateFileField(item.id, 'title', e.target.value)
-                      }
-                      placeholder="Generated or custom title"
-                    />
-                  </div>
-                  <div className="field-group">
-                    <label>Keywords</label>
-                    <textarea
-                      className="text-area"
-                      value={item.keywords}
-                      onChange={(e) =>
-                        updateFileField(item.id, 'keywords', e.target.value)
-                      }
-                      placeholder="Comma-separated keywords"
-                    />
-                  </div>
-                  <div className="field-group">
-                    <label>Description</label>
-                    <textarea
-                      className="text-area"
-                      value={item.description}
-                      onChange={(e) =>
-                        updateFileField(item.id, 'description', e.target.value)
-                      }
-                      placeholder="Description (up to 200 chars will be used)"
-                    />
-                  </div>
-                  <div className="file-actions">
-                    <span className={`status-badge status-${item.status}`}>
-                      {item.status === 'pending' && 'Pending'}
-                      {item.status === 'generating' && 'Generating'}
-                      {item.status === 'success' && 'Ready'}
-                      {item.status === 'failed' && 'Failed'}
-                    </span>
-                    {item.status === 'failed' && (
-                      <button
-                        className="small-btn"
-                        type="button"
-                        onClick={() => handleRegenerate(item.id)}
-                      >
-                        Regenerate
-                      </button>
-                    )}
-                  </div>
-                </div>
-              </div>
-            ))}
+            <VirtualList
+              items={files}
+              getKey={(f) => f.id}
+              estimateHeight={FILE_ROW_HEIGHT_ESTIMATE}
+              className="file-list"
+              renderItem={(item) => (
+                <FileRow
+                  item={item}
+                  mode={mode}
+                  keywordsCount={keywordsCount}
+                  categoryTaxonomy={categoryTaxonomy}
+                  flagDefaults={flagDefaults}
+                  similarNames={similarNamesOf(item)}
+                  issues={issuesById.get(item.id) || []}
+                  {...rowActions}
+                />
+              )}
+            />
           </section>
 
           {/* History */}
@@ -0,0 +1,77 @@
+// @vitest-environment jsdom
+import { act } from 'react'
+import { createRoot } from 'react-dom/client'
+import { describe, expect, it, vi } from 'vitest'
+import { FileRow, FileRowActions, useStableRowActions } from './FileRow'
+import { DEFAULT_FILE_FLAGS } from './flags'
+import type { FileItem } from './types'
+import { previousVersions } from './versions'
+
+// the row lists its versions on every render: count renders per file through that call
+vi.mock('./versions', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./versions')>()
+  return { ...actual, previousVersions: vi.fn(actual.previousVersions) }
+})
+
+// lets act() flush renders outside a test renderer
+;(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true
+
+function item(id: string, title: string): FileItem {
+  return {
+    id,
+    file: new File([''], `${id}.jpg`),
+    title,
+    keywords: 'sea, sky',
+    description: '',
+    prompt: '',
+    shortPrompt: '',
+    negativePrompt: '',
+    status: 'success',
+  }
+}
+
+function List({ items }: { items: FileItem[] }) {
+  // a new handler object on every render, like App's
+  const actions = useStableRowActions({
+    onFieldChange: () => undefined,
+    onFieldBlur: () => undefined,
+    onCategoryChange: () => undefined,
+    onFlagChange: () => undefined,
+    onResetFlags: () => undefined,
+    onRevertVersion: () => undefined,
+    onExcludeFromGroup: () => undefined,
+    onRegenerate: () => undefined,
+  } satisfies FileRowActions)
+  return (
+    <>
+      {items.map((f) => (
+        <FileRow
+          key={f.id}
+          item={f}
+          mode="metadata"
+          keywordsCount={2}
+          flagDefaults={DEFAULT_FILE_FLAGS}
+          similarNames={[]}
+          issues={[{ field: 'title', severity: 'warning', message: 'Short title' }]}
+          {...actions}
+        />
+      ))}
+    </>
+  )
+}
+
+describe('FileRow', () => {
+  it('re-renders only the row whose file changed', () => {
+    const root = createRoot(document.createElement('div'))
+    const items = [item('a', 'Sea'), item('b', 'Sky'), item('c', 'Sand')]
+    act(() => root.render(<List items={items} />))
+    vi.mocked(previousVersions).mockClear()
+
+    const edited = items.map((f) => (f.id === 'b' ? { ...f, title: 'Sky at dusk' } : f))
+    act(() => root.render(<List items={edited} />))
+
+    const rendered = vi.mocked(previousVersions).mock.calls.map(([f]) => f.id)
+    expect(new Set(rendered)).toEqual(new Set(['b']))
+    act(() => root.unmount())
+  })
+})
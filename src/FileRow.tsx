@@ -0,0 +1,347 @@
+import { memo, useMemo, useRef } from 'react'
+import type { CategoryTaxonomy } from './categories'
+import { BooleanFlag, FLAG_LABELS, resolveFlags } from './flags'
+import { countKeywords } from './keywords'
+import type { EditableField, FileFlags, FileItem, MetadataVersion, Mode } from './types'
+import type { ValidationIssue } from './validation'
+import { previousVersions } from './versions'
+import { formatVideoInfo } from './video'
+
+/** ----- One row of the file list: preview, fields, flags, versions, issues ----- */
+
+// row height before it is measured, px
+export const FILE_ROW_HEIGHT_ESTIMATE = 320
+
+export interface FileRowActions {
+  onFieldChange: (id: string, field: EditableField, value: string) => void
+  // the text field being typed into lost focus
+  onFieldBlur: () => void
+  onCategoryChange: (id: string, slot: number, value: string) => void
+  onFlagChange: <K extends keyof FileFlags>(id: string, key: K, value: FileFlags[K]) => void
+  onResetFlags: (id: string) => void
+  onRevertVersion: (id: string, version: MetadataVersion) => void
+  onExcludeFromGroup: (id: string) => void
+  onRegenerate: (id: string) => void
+}
+
+interface FileRowProps extends FileRowActions {
+  item: FileItem
+  mode: Mode
+  // target count, rows below it get a warning
+  keywordsCount: number
+  // undefined → the platform has no category column
+  categoryTaxonomy?: CategoryTaxonomy
+  flagDefaults: FileFlags
+  // names of the other files in this file's near-duplicate group
+  similarNames: string[]
+  issues: ValidationIssue[]
+}
+
+function FileRowView({
+  item,
+  mode,
+  keywordsCount,
+  categoryTaxonomy,
+  flagDefaults,
+  similarNames,
+  issues,
+  onFieldChange,
+  onFieldBlur,
+  onCategoryChange,
+  onFlagChange,
+  onResetFlags,
+  onRevertVersion,
+  onExcludeFromGroup,
+  onRegenerate,
+}: FileRowProps) {
+  return (
+    <div className="file-row">
+      <div className="file-preview">
+        {item.previewUrl ? (
+          <img src={item.previewUrl} alt={item.file.name} />
+        ) : (
+          <div className="file-icon-fallback">
+            <span>{item.file.name.split('.').pop()?.toUpperCase()}</span>
+          </div>
+        )}
+      </div>
+      <div className="file-meta">
+        <div className="file-name">{item.file.name}</div>
+        {item.companion && (
+          <div className="file-submeta">
+            Preview:{' '}
+            {item.previewSource === 'embedded'
+              ? 'embedded in file'
+              : item.companion.name}
+          </div>
+        )}
+        {item.strippedTerms && item.strippedTerms.length > 0 && (
+          <div className="file-submeta">
+            Removed terms: {item.strippedTerms.join(', ')}
+          </div>
+        )}
+        {item.mergedTerms && item.mergedTerms.length > 0 && (
+          <div className="file-submeta">Merged: {item.mergedTerms.join(', ')}</div>
+        )}
+        {mode === 'metadata' &&
+          item.status === 'success' &&
+          countKeywords(item.keywords) < keywordsCount && (
+            <div className="file-warning">
+              {countKeywords(item.keywords)} of {keywordsCount} keywords
+            </div>
+          )}
+        {item.imported && item.importedSources && (
+          <div className="file-submeta">
+            Imported from: {item.importedSources.join(', ')}
+          </div>
+        )}
+        {item.unpaired && (
+          <div className="file-warning">
+            No same-name JPG or embedded preview. Upload a JPG before generating.
+          </div>
+        )}
+        {item.video && (
+          <div className="file-submeta">{formatVideoInfo(item.video)}</div>
+        )}
+        {item.similarGroup && (
+          <div className="file-submeta">
+            Similar to:{' '}
+            {similarNames.join(', ')}
+            <button
+              className="link-btn"
+              type="button"
+              onClick={() => onExcludeFromGroup(item.id)}
+            >
+              not similar
+            </button>
+          </div>
+        )}
+        {mode === 'prompt' ? (
+          <>
+            <div className="field-group">
+              <label>Prompt</label>
+              <textarea
+                className="text-area text-area-tall"
+                value={item.prompt}
+                onChange={(e) =>
+                  onFieldChange(item.id, 'prompt', e.target.value)
+                }
+                onBlur={onFieldBlur}
+                placeholder="Detailed text-to-image prompt"
+              />
+            </div>
+            <div className="field-group">
+              <label>Short Prompt</label>
+              <input
+                className="text-input full"
+                value={item.shortPrompt}
+                onChange={(e) =>
+                  onFieldChange(item.id, 'shortPrompt', e.target.value)
+                }
+                onBlur={onFieldBlur}
+                placeholder="Compact prompt variant"
+              />
+            </div>
+            <div className="field-group">
+              <label>Negative Prompt</label>
+              <textarea
+                className="text-area"
+                value={item.negativePrompt}
+                onChange={(e) =>
+                  onFieldChange(item.id, 'negativePrompt', e.target.value)
+                }
+                onBlur={onFieldBlur}
+                placeholder="Things the model should avoid"
+              />
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="field-group">
+              <label>Title</label>
+              <input
+                className="text-input full"
+                value={item.title}
+                onChange={(e) =>
+                  onFieldChange(item.id, 'title', e.target.value)
+                }
+                onBlur={onFieldBlur}
+                placeholder="Generated or custom title"
+              />
+            </div>
+            <div className="field-group">
+              <label>Keywords</label>
+              <textarea
+                className="text-area"
+                value={item.keywords}
+                onChange={(e) =>
+                  onFieldChange(item.id, 'keywords', e.target.value)
+                }
+                onBlur={onFieldBlur}
+                placeholder="Comma-separated keywords"
+              />
+            </div>
+            <div className="field-group">
+              <label>Description</label>
+              <textarea
+                className="text-area"
+                value={item.description}
+                onChange={(e) =>
+                  onFieldChange(item.id, 'description', e.target.value)
+                }
+                onBlur={onFieldBlur}
+                placeholder="Description (up to 200 chars will be used)"
+              />
+            </div>
+            {categoryTaxonomy && (
+              <div className="field-group">
+                <label>Category</label>
+                {Array.from({ length: categoryTaxonomy.max }, (_, slot) => (
+                  <select
+                    key={slot}
+                    className="text-input full"
+                    value={(item.categories || [])[slot] || ''}
+                    onChange={(e) => onCategoryChange(item.id, slot, e.target.value)}
+                  >
+                    <option value="">{slot === 0 ? '(none)' : '(no second category)'}</option>
+                    {categoryTaxonomy.options.map((o) => (
+                      <option key={o.value} value={o.value}>
+                        {o.label}
+                      </option>
+                    ))}
+                  </select>
+                ))}
+              </div>
+            )}
+            <div className="field-group">
+              <label>
+                Flags
+                {item.flags && (
+                  <button
+                    className="link-btn"
+                    type="button"
+                    onClick={() => onResetFlags(item.id)}
+                  >
+                    use defaults
+                  </button>
+                )}
+              </label>
+              <div className="flag-row">
+                {(Object.keys(FLAG_LABELS) as BooleanFlag[]).map((key) => (
+                  <label key={key}>
+                    <input
+                      type="checkbox"
+                      checked={resolveFlags(item, flagDefaults)[key]}
+                      onChange={(e) => onFlagChange(item.id, key, e.target.checked)}
+                    />{' '}
+                    {FLAG_LABELS[key]}
+                  </label>
+                ))}
+              </div>
+              <input
+                className="text-input full"
+                value={resolveFlags(item, flagDefaults).releases}
+                onChange={(e) => onFlagChange(item.id, 'releases', e.target.value)}
+                placeholder="Release file names"
+              />
+            </div>
+          </>
+        )}
+        {previousVersions(item).length > 0 && (
+          <details className="version-list">
+            <summary>Previous versions ({previousVersions(item).length})</summary>
+            <ul className="import-list">
+              {previousVersions(item).map((v, idx) => (
+                <li key={`${v.savedAt}-${idx}`}>
+                  <span className="file-submeta">
+                    {v.source} · {new Date(v.savedAt).toLocaleTimeString()}
+                  </span>{' '}
+                  {(mode === 'prompt' ? v.prompt : v.title) || '(empty)'}{' '}
+                  <button
+                    className="link-btn"
+                    type="button"
+                    onClick={() => onRevertVersion(item.id, v)}
+                  >
+                    revert
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+        <div className="file-actions">
+          <span className={`status-badge status-${item.status}`}>
+            {item.status === 'pending' && 'Pending'}
+            {item.status === 'generating' && 'Generating'}
+            {item.status === 'success' && (item.imported ? 'Imported' : 'Ready')}
+            {item.status === 'failed' && 'Failed'}
+          </span>
+          {item.status === 'failed' && (
+            <button
+              className="small-btn"
+              type="button"
+              onClick={() => onRegenerate(item.id)}
+            >
+              Regenerate
+            </button>
+          )}
+        </div>
+        {item.status === 'failed' && item.error && (
+          <div className="file-error">{item.error}</div>
+        )}
+        {item.status === 'success' &&
+          issues.map((issue, idx) => (
+            <div
+              key={idx}
+              className={issue.severity === 'error' ? 'file-error' : 'file-warning'}
+            >
+              {issue.message}
+            </div>
+          ))}
+      </div>
+    </div>
+  )
+}
+
+// issues and similar names are rebuilt on every validation pass: compare their content
+function sameRowProps(prev: FileRowProps, next: FileRowProps): boolean {
+  return (Object.keys(next) as (keyof FileRowProps)[]).every((key) => {
+    if (key === 'similarNames') {
+      return prev.similarNames.join('\0') === next.similarNames.join('\0')
+    }
+    if (key === 'issues') {
+      return (
+        prev.issues.length === next.issues.length &&
+        prev.issues.every(
+          (issue, i) =>
+            issue.field === next.issues[i].field &&
+            issue.severity === next.issues[i].severity &&
+            issue.message === next.issues[i].message,
+        )
+      )
+    }
+    return Object.is(prev[key], next[key])
+  })
+}
+
+/** Re-renders only when its own file (or a list-wide setting) changed. */
+export const FileRow = memo(FileRowView, sameRowProps)
+
+/** Actions that keep their identity across renders and always call the latest handlers. */
+export function useStableRowActions(actions: FileRowActions): FileRowActions {
+  const latest = useRef(actions)
+  latest.current = actions
+  return useMemo<FileRowActions>(
+    () => ({
+      onFieldChange: (id, field, value) => latest.current.onFieldChange(id, field, value),
+      onFieldBlur: () => latest.current.onFieldBlur(),
+      onCategoryChange: (id, slot, value) => latest.current.onCategoryChange(id, slot, value),
+      onFlagChange: (id, key, value) => latest.current.onFlagChange(id, key, value),
+      onResetFlags: (id) => latest.current.onResetFlags(id),
+      onRevertVersion: (id, version) => latest.current.onRevertVersion(id, version),
+      onExcludeFromGroup: (id) => latest.current.onExcludeFromGroup(id),
+      onRegenerate: (id) => latest.current.onRegenerate(id),
+    }),
+    [],
+  )
+}
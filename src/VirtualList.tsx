@@ -0,0 +1,137 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
+
+/** ----- Windowed list: only rows near the viewport are mounted ----- */
+
+interface VirtualListProps<T> {
+  items: T[]
+  getKey: (item: T) => string
+  renderItem: (item: T, index: number) => React.ReactNode
+  // first guess for rows not measured yet, px
+  estimateHeight: number
+  // rows mounted above and below the viewport
+  overscan?: number
+  className?: string
+}
+
+// Rows have different heights (warnings, open <details>), so each mounted row is
+// measured with a ResizeObserver and offsets are rebuilt from those measurements.
+export function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimateHeight,
+  overscan = 4,
+  className,
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const heightsRef = useRef(new Map<string, number>())
+  const [measureTick, setMeasureTick] = useState(0)
+  const [viewport, setViewport] = useState({ top: 0, height: 600 })
+
+  const observer = useMemo(
+    () =>
+      typeof ResizeObserver === 'undefined'
+        ? null
+        : new ResizeObserver((entries) => {
+            let changed = false
+            entries.forEach((entry) => {
+              const key = (entry.target as HTMLElement).dataset.key
+              if (!key) return
+              const height = Math.round(entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height)
+              if (heightsRef.current.get(key) !== height) {
+                heightsRef.current.set(key, height)
+                changed = true
+              }
+            })
+            if (changed) setMeasureTick((t) => t + 1)
+          }),
+    [],
+  )
+
+  useEffect(() => () => observer?.disconnect(), [observer])
+
+  useLayoutEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    let frame = 0
+    const update = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(() =>
+        setViewport({ top: container.scrollTop, height: container.clientHeight }),
+      )
+    }
+    update()
+    container.addEventListener('scroll', update, { passive: true })
+    window.addEventListener('resize', update)
+    return () => {
+      cancelAnimationFrame(frame)
+      container.removeEventListener('scroll', update)
+      window.removeEventListener('resize', update)
+    }
+  }, [])
+
+  // offsets[i] = top of row i; offsets[items.length] = total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(items.length + 1)
+    result[0] = 0
+    items.forEach((item, i) => {
+      result[i + 1] = result[i] + (heightsRef.current.get(getKey(item)) ?? estimateHeight)
+    })
+    return result
+    // heights live in a ref; measureTick says they changed
+  }, [items, estimateHeight, measureTick])
+
+  // first row whose bottom is below the viewport top (binary search)
+  let lo = 0
+  let hi = items.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (offsets[mid + 1] <= viewport.top) lo = mid + 1
+    else hi = mid
+  }
+  const start = Math.max(0, lo - overscan)
+  let end = lo
+  while (end < items.length && offsets[end] < viewport.top + viewport.height) end++
+  end = Math.min(items.length, end + overscan)
+
+  return (
+    <div ref={containerRef} className={className}>
+      <div style={{ height: offsets[start] }} />
+      {items.slice(start, end).map((item, i) => {
+        const key = getKey(item)
+        return (
+          <MeasuredRow key={key} rowKey={key} observer={observer}>
+            {renderItem(item, start + i)}
+          </MeasuredRow>
+        )
+      })}
+      <div style={{ height: offsets[items.length] - offsets[end] }} />
+    </div>
+  )
+}
+
+function MeasuredRow({
+  rowKey,
+  observer,
+  children,
+}: {
+  rowKey: string
+  observer: ResizeObserver | null
+  children: React.ReactNode
+}) {
+  const ref = useRef<HTMLDivElement>(null)
+
+  useLayoutEffect(() => {
+    const element = ref.current
+    if (!element || !observer) return
+    observer.observe(element)
+    return () => observer.unobserve(element)
+  }, [observer])
+
+  // flow-root keeps the row's bottom margin inside the measured box
+  return (
+    <div ref={ref} data-key={rowKey} style={{ display: 'flow-root' }}>
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,307 @@
+import React, { useEffect, useRef, useState } from 'react'
+import ReactDOM from 'react-dom/client'
+import { flushSync } from 'react-dom'
+import '../index.css'
+import '../App.css'
+import { CATEGORY_TAXONOMIES } from '../categories'
+import { FILE_ROW_HEIGHT_ESTIMATE, FileRow, FileRowActions } from '../FileRow'
+import { DEFAULT_FILE_FLAGS } from '../flags'
+import { groupSimilar } from '../similarity'
+import { makePreview } from '../thumbnails'
+import type { FileItem, Platform } from '../types'
+import { validateBatch, validateItem, ValidationIssue } from '../validation'
+import { VirtualList } from '../VirtualList'
+
+/**
+ * ----- File list benchmark (npm run bench) -----
+ * Builds a batch of synthetic images, makes their thumbnails, then mounts and
+ * scrolls the app's file rows both windowed and fully rendered. The windowed list
+ * is checked against BUDGETS; the full render is printed for comparison.
+ * Query: ?count=1000&size=2400 (longest side of the generated images, px).
+ */
+
+interface ListResult {
+  mode: string
+  mountMs: number
+  updateMs: number
+  rowsMounted: number
+  scrollFrames: number
+  worstFrameMs: number
+  longTasks: number
+  longTaskMs: number
+}
+
+// what "stable at 1000 files" means for the windowed list
+const BUDGETS = {
+  // first render of the list, including one frame
+  mountMs: 300,
+  // re-render after one row's title changed, as on a keystroke: within a 60 Hz frame
+  updateMs: 16,
+  // rows in the DOM at any time
+  rowsMounted: 40,
+  // slowest frame while scrolling top to bottom (~3 dropped frames at 60 Hz)
+  worstFrameMs: 50,
+  // main-thread time spent in tasks over 50 ms while scrolling
+  longTaskMs: 100,
+}
+
+const PLATFORM: Platform = 'shutterstock'
+
+const params = new URLSearchParams(location.search)
+const COUNT = Number(params.get('count')) || 1000
+const SIZE = Number(params.get('size')) || 2400
+
+const nextFrame = () => new Promise<number>((resolve) => requestAnimationFrame(resolve))
+
+// rows are only measured, not edited
+const noop = () => undefined
+const ROW_ACTIONS: FileRowActions = {
+  onFieldChange: noop,
+  onFieldBlur: noop,
+  onCategoryChange: noop,
+  onFlagChange: noop,
+  onResetFlags: noop,
+  onRevertVersion: noop,
+  onExcludeFromGroup: noop,
+  onRegenerate: noop,
+}
+
+async function makeImages(count: number, log: (line: string) => void): Promise<Blob[]> {
+  const canvas = document.createElement('canvas')
+  canvas.width = SIZE
+  canvas.height = Math.round(SIZE * 0.66)
+  const ctx = canvas.getContext('2d')!
+  const blobs: Blob[] = []
+  for (let i = 0; i < count; i++) {
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height)
+    gradient.addColorStop(0, `hsl(${(i * 37) % 360}, 70%, 55%)`)
+    gradient.addColorStop(1, `hsl(${(i * 91) % 360}, 60%, 25%)`)
+    ctx.fillStyle = gradient
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    ctx.fillStyle = '#fff'
+    ctx.font = `${Math.round(SIZE / 8)}px sans-serif`
+    ctx.fillText(String(i + 1), SIZE / 10, canvas.height / 2)
+    const blob = await new Promise<Blob>((resolve) =>
+      canvas.toBlob((b) => resolve(b!), 'image/jpeg', 0.92),
+    )
+    blobs.push(blob)
+    if ((i + 1) % 100 === 0) log(`Generated ${i + 1}/${count} images`)
+  }
+  return blobs
+}
+
+// a 64-bit hash far (in Hamming distance) from the other pairs' hashes
+function pairHash(pair: number): string {
+  const half = (Math.imul(pair + 1, 0x9e3779b1) >>> 0).toString(16).padStart(8, '0')
+  return half + half
+}
+
+const EMPTY_VERSION = { description: '', prompt: '', shortPrompt: '', negativePrompt: '' }
+
+// generated rows with what makes real rows heavy: categories, flags, versions, warnings
+function makeItem(blob: Blob, i: number): FileItem {
+  const keywords = Array.from({ length: 45 }, (_, k) => `keyword${(i + k) % 300}`).join(', ')
+  const title = i % 25 === 1 ? 'Gradient background' : `Gradient background number ${i + 1}`
+  return {
+    id: String(i),
+    file: new File([blob], `bench-${i + 1}.jpg`, { type: 'image/jpeg' }),
+    title,
+    keywords,
+    description: `Abstract colour gradient with the number ${i + 1}`,
+    categories: i % 3 ? ['Abstract', 'Backgrounds/Textures'] : ['Abstract'],
+    flags: i % 4 ? undefined : { editorial: true },
+    versions: [
+      { ...EMPTY_VERSION, source: 'generated', savedAt: 0, title: `Old title ${i}`, keywords },
+      { ...EMPTY_VERSION, source: 'edited', savedAt: 1, title, keywords },
+    ],
+    // the first two of every ten files are near-duplicates of each other
+    phash: i % 10 < 2 ? pairHash(Math.floor(i / 10)) : undefined,
+    prompt: '',
+    shortPrompt: '',
+    negativePrompt: '',
+    status: 'success',
+  }
+}
+
+function BenchList({
+  items,
+  issues,
+  windowed,
+}: {
+  items: FileItem[]
+  issues: Map<string, ValidationIssue[]>
+  windowed: boolean
+}) {
+  const renderRow = (item: FileItem) => (
+    <FileRow
+      item={item}
+      mode="metadata"
+      keywordsCount={50}
+      categoryTaxonomy={CATEGORY_TAXONOMIES[PLATFORM]}
+      flagDefaults={DEFAULT_FILE_FLAGS}
+      similarNames={item.similarGroup ? ['bench-similar.jpg'] : []}
+      issues={issues.get(item.id) || []}
+      {...ROW_ACTIONS}
+    />
+  )
+
+  if (windowed) {
+    return (
+      <VirtualList
+        items={items}
+        getKey={(item) => item.id}
+        estimateHeight={FILE_ROW_HEIGHT_ESTIMATE}
+        className="file-list"
+        renderItem={renderRow}
+      />
+    )
+  }
+  return (
+    <div className="file-list">
+      {items.map((item) => (
+        <React.Fragment key={item.id}>{renderRow(item)}</React.Fragment>
+      ))}
+    </div>
+  )
+}
+
+async function measureList(
+  host: HTMLElement,
+  items: FileItem[],
+  issues: Map<string, ValidationIssue[]>,
+  windowed: boolean,
+): Promise<ListResult> {
+  const root = ReactDOM.createRoot(host)
+  const mountStart = performance.now()
+  flushSync(() => root.render(<BenchList items={items} issues={issues} windowed={windowed} />))
+  await nextFrame()
+  const mountMs = performance.now() - mountStart
+  await nextFrame()
+  let rowsMounted = host.querySelectorAll('.file-row').length
+
+  // memoized rows: only the edited one should render again
+  const edited = items.map((item, i) => (i === 0 ? { ...item, title: `${item.title}!` } : item))
+  const updateStart = performance.now()
+  flushSync(() => root.render(<BenchList items={edited} issues={issues} windowed={windowed} />))
+  const updateMs = performance.now() - updateStart
+
+  const longTasks: number[] = []
+  const observer =
+    typeof PerformanceObserver !== 'undefined' &&
+    PerformanceObserver.supportedEntryTypes?.includes('longtask')
+      ? new PerformanceObserver((list) =>
+          list.getEntries().forEach((entry) => longTasks.push(entry.duration)),
+        )
+      : null
+  observer?.observe({ type: 'longtask' })
+
+  // scroll top → bottom in steps, one step per frame
+  const list = host.querySelector('.file-list') as HTMLElement
+  const steps = 120
+  let worstFrameMs = 0
+  let last = await nextFrame()
+  for (let step = 1; step <= steps; step++) {
+    list.scrollTop = ((list.scrollHeight - list.clientHeight) * step) / steps
+    const now = await nextFrame()
+    worstFrameMs = Math.max(worstFrameMs, now - last)
+    last = now
+    rowsMounted = Math.max(rowsMounted, host.querySelectorAll('.file-row').length)
+  }
+  observer?.disconnect()
+  root.unmount()
+
+  return {
+    mode: windowed ? 'virtualized' : 'all rows',
+    mountMs: Math.round(mountMs),
+    updateMs: Math.round(updateMs),
+    rowsMounted,
+    scrollFrames: steps,
+    worstFrameMs: Math.round(worstFrameMs),
+    longTasks: longTasks.length,
+    longTaskMs: Math.round(longTasks.reduce((sum, d) => sum + d, 0)),
+  }
+}
+
+function describeResult(r: ListResult): string {
+  return (
+    `${r.mode}: mount ${r.mountMs} ms, one-row update ${r.updateMs} ms, ` +
+    `up to ${r.rowsMounted} rows in the DOM, ` +
+    `worst frame ${r.worstFrameMs} ms over ${r.scrollFrames} scroll steps, ` +
+    `${r.longTasks} long tasks (${r.longTaskMs} ms)`
+  )
+}
+
+// one line per budget, PASS / FAIL
+function checkBudgets(r: ListResult): string[] {
+  return (Object.keys(BUDGETS) as (keyof typeof BUDGETS)[]).map((key) => {
+    const pass = r[key] <= BUDGETS[key]
+    return `${pass ? 'PASS' : 'FAIL'} ${key}: ${r[key]} (budget ${BUDGETS[key]})`
+  })
+}
+
+function Bench() {
+  const [lines, setLines] = useState<string[]>([])
+  const hostRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const log = (line: string) => setLines((prev) => [...prev, line])
+    let cancelled = false
+    const urls: string[] = []
+
+    const run = async () => {
+      log(`${COUNT} images, ${SIZE}px longest side, ${PLATFORM} rows`)
+      const blobs = await makeImages(COUNT, log)
+      if (cancelled) return
+
+      const thumbStart = performance.now()
+      let bytes = 0
+      let items = blobs.map(makeItem)
+      for (const item of items) {
+        const { thumb } = await makePreview(item.file)
+        bytes += thumb ? thumb.size : item.file.size
+        item.previewUrl = URL.createObjectURL(thumb || item.file)
+        urls.push(item.previewUrl)
+      }
+      const thumbSeconds = (performance.now() - thumbStart) / 1000
+      const originalBytes = blobs.reduce((sum, blob) => sum + blob.size, 0)
+      log(
+        `Thumbnails: ${(COUNT / thumbSeconds).toFixed(1)} files/s, ` +
+          `${(originalBytes / 1e6).toFixed(1)} MB of originals → ${(bytes / 1e6).toFixed(1)} MB shown`,
+      )
+
+      // the same per-row and batch validation the app runs
+      items = groupSimilar(items)
+      const batch = validateBatch(items)
+      const issues = new Map(
+        items.map((item) => [
+          item.id,
+          [...validateItem(item, PLATFORM, DEFAULT_FILE_FLAGS), ...(batch.get(item.id) || [])],
+        ]),
+      )
+
+      for (const windowed of [true, false]) {
+        if (cancelled || !hostRef.current) return
+        const result = await measureList(hostRef.current, items, issues, windowed)
+        log(describeResult(result))
+        if (windowed) checkBudgets(result).forEach(log)
+      }
+      log('Done.')
+    }
+
+    run().catch((err) => log(`Failed: ${err && err.message ? err.message : err}`))
+    return () => {
+      cancelled = true
+      urls.forEach((url) => URL.revokeObjectURL(url))
+    }
+  }, [])
+
+  return (
+    <div className="card">
+      <h2>File list benchmark</h2>
+      <pre>{lines.join('\n')}</pre>
+      <div ref={hostRef} />
+    </div>
+  )
+}
+
+ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(<Bench />)
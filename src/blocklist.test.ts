@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { BUILT_IN_BLOCKLIST, filterBlockedTerms, parseBlocklist } from './blocklist'
+
+const filter = (title: string, keywords: string) =>
+  filterBlockedTerms(title, keywords, 'adobe', [BUILT_IN_BLOCKLIST])
+
+describe('filterBlockedTerms', () => {
+  it('keeps subject phrases that contain a spam word', () => {
+    const result = filter(
+      'Trader watching the stock market in a commercial building',
+      'stock market, free kick, commercial building, best friends, football',
+    )
+    expect(result.title).toBe('Trader watching the stock market in a commercial building')
+    expect(result.keywords).toBe(
+      'stock market, free kick, commercial building, best friends, football',
+    )
+    expect(result.stripped).toEqual([])
+  })
+
+  it('removes spam words used on their own', () => {
+    const result = filter(
+      'Best free sunset stock photo',
+      'sunset, stock, free, best, royalty free image, beach',
+    )
+    expect(result.title).toBe('Sunset photo')
+    expect(result.keywords).toBe('sunset, image, beach')
+    expect(result.stripped.sort()).toEqual(['best', 'free', 'royalty free', 'stock'])
+  })
+
+  it('still strips brands anywhere in a phrase', () => {
+    const result = filter('Person holding a macbook', 'iphone case, nike shoes')
+    expect(result.title).toBe('Person holding a laptop')
+    expect(result.keywords).toBe('smartphone case, shoes')
+  })
+})
+
+describe('parseBlocklist', () => {
+  it('reads "~" terms as standalone rules', () => {
+    const list = parseBlocklist('[all]\n~promo\nbrandname => brand')
+    expect(list.all).toEqual([
+      { term: 'promo', replacement: '', standalone: true },
+      { term: 'brandname', replacement: 'brand' },
+    ])
+  })
+})
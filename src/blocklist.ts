@@ -0,0 +1,253 @@
+import type { Platform } from './types'
+
+/** ----- Trademark / brand / spam term filter ----- */
+
+export interface BlockRule {
+  term: string
+  // empty → the term is removed
+  replacement: string
+  // true → only a whole keyword, or a title word outside PROTECTED_PHRASES ("~term")
+  standalone?: boolean
+}
+
+// section "all" applies to every platform
+export type Blocklist = Record<Platform | 'all', BlockRule[]>
+
+export interface FilterResult {
+  title: string
+  keywords: string
+  stripped: string[]
+}
+
+/**
+ * Text format used for the built-in list and the user's additions:
+ * one term per line, "term => replacement" to replace instead of remove,
+ * "~term" to match only a whole keyword or a title word outside a known phrase,
+ * "[adobe]" / "[all]" section headers, "#" comments.
+ */
+export const BUILT_IN_BLOCKLIST_TEXT = `
+[all]
+# spam / marketing terms; ~ keeps phrases like "stock market" or "free kick"
+~stock
+~best
+~free
+~cheap
+~amazing
+~awesome
+~trending
+~viral
+royalty free
+~download
+~commercial
+# brands and products
+iphone => smartphone
+ipad => tablet
+macbook => laptop
+samsung
+google
+facebook
+instagram
+tiktok
+youtube
+twitter
+whatsapp
+nike
+adidas
+coca cola
+pepsi
+mcdonalds
+starbucks
+ferrari
+lamborghini
+tesla
+bmw
+mercedes
+toyota
+louis vuitton
+gucci
+chanel
+rolex
+xbox
+playstation
+nintendo
+lego => toy bricks
+barbie => doll
+# characters and franchises
+disney
+marvel
+pixar
+pokemon
+pikachu
+star wars
+harry potter
+mickey mouse
+spiderman
+batman
+superman
+hello kitty
+# celebrities
+taylor swift
+elon musk
+donald trump
+beyonce
+messi
+ronaldo
+
+[adobe]
+adobe
+adobe stock
+ai generated
+generative ai
+midjourney
+stable diffusion
+
+[shutterstock]
+shutterstock
+
+[freepik]
+freepik
+premium
+
+[vecteezy]
+vecteezy
+`
+
+export function emptyBlocklist(): Blocklist {
+  return { all: [], adobe: [], shutterstock: [], freepik: [], vecteezy: [], general: [] }
+}
+
+export function parseBlocklist(text: string, into: Blocklist = emptyBlocklist()): Blocklist {
+  let section: keyof Blocklist = 'all'
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    if (!line) return
+    const header = line.match(/^\[(\w+)\]$/)
+    if (header) {
+      const name = header[1].toLowerCase()
+      section = name in into ? (name as keyof Blocklist) : 'all'
+      return
+    }
+    const [rawTerm, replacement = ''] = line.split('=>').map((part) => part.trim().toLowerCase())
+    const standalone = rawTerm.startsWith('~')
+    const term = standalone ? rawTerm.slice(1).trim() : rawTerm
+    if (!term) return
+    into[section].push(standalone ? { term, replacement, standalone } : { term, replacement })
+  })
+  return into
+}
+
+export const BUILT_IN_BLOCKLIST = parseBlocklist(BUILT_IN_BLOCKLIST_TEXT)
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function rulesFor(platform: Platform, lists: Blocklist[]): BlockRule[] {
+  // longest terms first so "coca cola" wins over "cola"
+  return lists
+    .flatMap((list) => [...list.all, ...list[platform]])
+    .sort((a, b) => b.term.length - a.term.length)
+}
+
+// subject phrases that contain a "~" term but aren't spam
+const PROTECTED_PHRASES = [
+  'stock market',
+  'stock exchange',
+  'stock car',
+  'chicken stock',
+  'soup stock',
+  'vegetable stock',
+  'free kick',
+  'free throw',
+  'free time',
+  'free fall',
+  'free range',
+  'free spirit',
+  'gluten free',
+  'sugar free',
+  'dairy free',
+  'tax free',
+  'duty free',
+  'hands free',
+  'best man',
+  'best friend',
+  'best friends',
+  'commercial building',
+  'commercial district',
+  'commercial kitchen',
+  'commercial property',
+  'commercial real estate',
+  'commercial vehicle',
+  'commercial aircraft',
+  'commercial fishing',
+]
+
+// `source` (a term or an alternation) between non-letter/digit boundaries; group 1 = lead
+function boundedPattern(source: string): RegExp {
+  return new RegExp(`(^|[^\\p{L}\\p{N}])(?:${source})(?=$|[^\\p{L}\\p{N}])`, 'giu')
+}
+
+// [start, end) of each protected phrase in the text
+function protectedRanges(text: string): [number, number][] {
+  const re = boundedPattern(PROTECTED_PHRASES.map(escapeRegExp).join('|'))
+  return Array.from(text.matchAll(re), (m) => {
+    const start = m.index! + m[1].length
+    return [start, m.index! + m[0].length]
+  })
+}
+
+// `wholeText` → a keyword: "~" rules match only when they are the entire keyword
+function stripTerms(
+  text: string,
+  rules: BlockRule[],
+  stripped: Set<string>,
+  wholeText: boolean,
+): string {
+  let out = text
+  rules.forEach(({ term, replacement, standalone }) => {
+    if (standalone && wholeText) {
+      if (out.trim().toLowerCase() !== term) return
+      stripped.add(term)
+      out = replacement
+      return
+    }
+    const ranges = standalone ? protectedRanges(out) : []
+    out = out.replace(boundedPattern(escapeRegExp(term)), (match, lead: string, offset: number) => {
+      const start = offset + lead.length
+      if (ranges.some(([from, to]) => start >= from && start < to)) return match
+      stripped.add(term)
+      return `${lead}${replacement}`
+    })
+  })
+  return out.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Remove / replace blocked terms in a finished title and keyword list.
+ * Keywords that end up empty are dropped, replacements are de-duplicated.
+ */
+export function filterBlockedTerms(
+  title: string,
+  keywords: string,
+  platform: Platform,
+  lists: Blocklist[],
+): FilterResult {
+  const rules = rulesFor(platform, lists)
+  const stripped = new Set<string>()
+
+  let cleanTitle = stripTerms(title, rules, stripped, false)
+  cleanTitle = cleanTitle.charAt(0).toUpperCase() + cleanTitle.slice(1)
+
+  const seen = new Set<string>()
+  const cleanKeywords = keywords
+    .split(',')
+    .map((k) => stripTerms(k.trim(), rules, stripped, true))
+    .filter((k) => {
+      if (!k || seen.has(k)) return false
+      seen.add(k)
+      return true
+    })
+    .join(', ')
+
+  return { title: cleanTitle, keywords: cleanKeywords, stripped: Array.from(stripped) }
+}
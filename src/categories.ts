@@ -0,0 +1,121 @@
+import type { Platform } from './types'
+
+/** ----- Marketplace category taxonomies ----- */
+
+export interface CategoryOption {
+  // what goes into the CSV: Adobe's numeric ID, Shutterstock's category name
+  value: string
+  label: string
+}
+
+export interface CategoryTaxonomy {
+  // how many categories a file can carry
+  max: number
+  // true → at least one is needed for the upload to go through
+  required: boolean
+  options: CategoryOption[]
+}
+
+const ADOBE_CATEGORIES = [
+  'Animals',
+  'Buildings and Architecture',
+  'Business',
+  'Drinks',
+  'The Environment',
+  'States of Mind',
+  'Food',
+  'Graphic Resources',
+  'Hobbies and Leisure',
+  'Industry',
+  'Landscapes',
+  'Lifestyle',
+  'People',
+  'Plants and Flowers',
+  'Culture and Religion',
+  'Science',
+  'Social Issues',
+  'Sports',
+  'Technology',
+  'Transport',
+  'Travel',
+]
+
+const SHUTTERSTOCK_CATEGORIES = [
+  'Abstract',
+  'Animals/Wildlife',
+  'Arts',
+  'Backgrounds/Textures',
+  'Beauty/Fashion',
+  'Buildings/Landmarks',
+  'Business/Finance',
+  'Celebrities',
+  'Education',
+  'Food and drink',
+  'Healthcare/Medical',
+  'Holidays',
+  'Industrial',
+  'Interiors',
+  'Miscellaneous',
+  'Nature',
+  'Objects',
+  'Parks/Outdoor',
+  'People',
+  'Religion',
+  'Science',
+  'Signs/Symbols',
+  'Sports/Recreation',
+  'Technology',
+  'Transportation',
+  'Vintage',
+]
+
+// platforms without an entry have no category column
+export const CATEGORY_TAXONOMIES: Partial<Record<Platform, CategoryTaxonomy>> = {
+  adobe: {
+    max: 1,
+    required: false,
+    options: ADOBE_CATEGORIES.map((label, i) => ({ value: String(i + 1), label })),
+  },
+  shutterstock: {
+    max: 2,
+    required: true,
+    options: SHUTTERSTOCK_CATEGORIES.map((label) => ({ value: label, label })),
+  },
+}
+
+/** "1 = Animals, 2 = ..." for the prompt; names only when value and label are the same. */
+export function describeCategoryOptions(taxonomy: CategoryTaxonomy): string {
+  return taxonomy.options
+    .map((o) => (o.value === o.label ? o.label : `${o.value} = ${o.label}`))
+    .join(', ')
+}
+
+function findOption(raw: string, taxonomy: CategoryTaxonomy): CategoryOption | undefined {
+  const text = raw.trim().toLowerCase()
+  if (!text) return undefined
+  return (
+    taxonomy.options.find((o) => o.value.toLowerCase() === text) ||
+    taxonomy.options.find((o) => o.label.toLowerCase() === text) ||
+    // "7 = Food", "7. Food"
+    taxonomy.options.find((o) => text.replace(/^(\d+)\b.*$/, '$1') === o.value.toLowerCase())
+  )
+}
+
+/** Model answer (array, string or number) → known category values, deduplicated, at most `max`. */
+export function matchCategories(raw: unknown, platform: Platform): string[] {
+  const taxonomy = CATEGORY_TAXONOMIES[platform]
+  if (!taxonomy || raw === undefined || raw === null) return []
+  const candidates = Array.isArray(raw) ? raw.map(String) : String(raw).split(/[,;]/)
+
+  const values: string[] = []
+  for (const candidate of candidates) {
+    const option = findOption(candidate, taxonomy)
+    if (option && !values.includes(option.value)) values.push(option.value)
+  }
+  return values.slice(0, taxonomy.max)
+}
+
+export function isKnownCategory(value: string, platform: Platform): boolean {
+  const taxonomy = CATEGORY_TAXONOMIES[platform]
+  return !!taxonomy && taxonomy.options.some((o) => o.value === value)
+}
@@ -0,0 +1,168 @@
+import { JSDOM } from 'jsdom'
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+  buildIptcBlock,
+  crc32,
+  EmbeddedFields,
+  writeJpegMetadata,
+  writePngMetadata,
+  writeSvgMetadata,
+} from './embedMetadata'
+import { parseIptc, readExistingMetadata } from './readMetadata'
+
+const encoder = new TextEncoder()
+
+// Node's File/Blob are used as they are; only XML parsing comes from jsdom
+beforeAll(() => {
+  globalThis.DOMParser = new JSDOM('').window.DOMParser
+})
+
+const FIELDS: EmbeddedFields = {
+  title: 'Café terrace in Dhaka — ঢাকা',
+  keywords: ['café', 'ঢাকা', '東京', 'rock & roll'],
+  description: 'Evening <street> scene, "Zürich" style',
+}
+
+const OLD_FIELDS: EmbeddedFields = { title: 'Old title', keywords: ['old'], description: '' }
+
+function bytes(...parts: (number[] | Uint8Array | string)[]): Uint8Array {
+  const arrays = parts.map((p) =>
+    typeof p === 'string' ? encoder.encode(p) : p instanceof Uint8Array ? p : Uint8Array.from(p),
+  )
+  const out = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0))
+  let pos = 0
+  arrays.forEach((a) => {
+    out.set(a, pos)
+    pos += a.length
+  })
+  return out
+}
+
+function segment(marker: number, payload: Uint8Array): Uint8Array {
+  const length = payload.length + 2
+  return bytes([0xff, marker, length >> 8, length & 0xff], payload)
+}
+
+// APP segments of a JPEG, up to the image data
+function segments(jpeg: Uint8Array): { marker: number; payload: Uint8Array }[] {
+  const found: { marker: number; payload: Uint8Array }[] = []
+  let pos = 2
+  while (pos + 4 <= jpeg.length && jpeg[pos] === 0xff && jpeg[pos + 1] !== 0xda) {
+    const length = (jpeg[pos + 2] << 8) | jpeg[pos + 3]
+    found.push({ marker: jpeg[pos + 1], payload: jpeg.subarray(pos + 4, pos + 2 + length) })
+    pos += 2 + length
+  }
+  return found
+}
+
+// little-endian TIFF with one IFD0 entry: ImageDescription
+function exifWithDescription(text: string): Uint8Array {
+  const value = bytes(text, [0])
+  const ifd = bytes(
+    [1, 0],
+    [0x0e, 0x01, 2, 0],
+    [value.length, 0, 0, 0],
+    [26, 0, 0, 0],
+    [0, 0, 0, 0],
+  )
+  return bytes('Exif\0\0', [0x49, 0x49, 0x2a, 0, 8, 0, 0, 0], ifd, value)
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const body = bytes(type, data)
+  const crc = crc32(body)
+  const len = data.length
+  return bytes(
+    [len >>> 24, (len >> 16) & 0xff, (len >> 8) & 0xff, len & 0xff],
+    body,
+    [crc >>> 24, (crc >> 16) & 0xff, (crc >> 8) & 0xff, crc & 0xff],
+  )
+}
+
+function asFile(data: Uint8Array | string, name: string, type: string): File {
+  return new File([typeof data === 'string' ? data : new Uint8Array(data)], name, { type })
+}
+
+const SCAN = [0xff, 0xda, 0, 2, 0x12, 0x34, 0xff, 0xd9]
+
+describe('JPEG round trip', () => {
+  const jpeg = bytes(
+    [0xff, 0xd8],
+    segment(0xe0, bytes('JFIF\0', [1, 1, 0, 0, 1, 0, 1, 0, 0])),
+    segment(0xe1, exifWithDescription('OLYMPUS DIGITAL CAMERA')),
+    segment(0xe1, bytes('http://ns.adobe.com/xap/1.0/\0', '<x:xmpmeta xmlns:x="adobe:ns:meta/"/>')),
+    segment(0xed, bytes('Photoshop 3.0\0', buildIptcBlock(OLD_FIELDS))),
+    SCAN,
+  )
+
+  it('reads back what was written, over existing APP1/APP13 segments', async () => {
+    const tagged = writeJpegMetadata(jpeg, FIELDS)
+    const meta = await readExistingMetadata(asFile(tagged, 'photo.jpg', 'image/jpeg'))
+    expect(meta).toMatchObject({
+      title: FIELDS.title,
+      keywords: FIELDS.keywords,
+      description: FIELDS.description,
+    })
+    expect(meta!.sources[0]).toBe('XMP')
+  })
+
+  it('replaces the old XMP and IPTC and keeps JFIF, EXIF and the image data', () => {
+    const tagged = writeJpegMetadata(jpeg, FIELDS)
+    const found = segments(tagged)
+    const app13 = found.filter((s) => s.marker === 0xed)
+    const xmp = found.filter(
+      (s) => s.marker === 0xe1 && new TextDecoder().decode(s.payload.subarray(0, 4)) === 'http',
+    )
+
+    expect(found.map((s) => s.marker)).toEqual([0xe0, 0xe1, 0xe1, 0xed])
+    expect(xmp).toHaveLength(1)
+    expect(app13).toHaveLength(1)
+    expect(parseIptc(app13[0].payload.subarray(14))).toEqual({
+      title: FIELDS.title,
+      keywords: FIELDS.keywords,
+      description: FIELDS.description,
+    })
+    expect(Array.from(tagged.subarray(tagged.length - SCAN.length))).toEqual(SCAN)
+  })
+})
+
+describe('PNG round trip', () => {
+  const ihdr = pngChunk('IHDR', Uint8Array.from([0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]))
+  const png = bytes(
+    [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+    ihdr,
+    pngChunk('tEXt', bytes('Title\0Old title')),
+    pngChunk('IDAT', Uint8Array.from([0x78, 0x9c, 0x63, 0, 0, 0, 1, 0, 1])),
+    pngChunk('IEND', new Uint8Array()),
+  )
+
+  it('reads back what was written and drops the old text chunk', async () => {
+    const tagged = writePngMetadata(png, FIELDS)
+    const meta = await readExistingMetadata(asFile(tagged, 'art.png', 'image/png'))
+    expect(meta).toMatchObject({
+      title: FIELDS.title,
+      keywords: FIELDS.keywords,
+      description: FIELDS.description,
+    })
+    expect(new TextDecoder('latin1').decode(tagged)).not.toContain('Old title')
+  })
+})
+
+describe('SVG round trip', () => {
+  const svg =
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">' +
+    '<metadata><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"/></metadata>' +
+    '<rect width="10" height="10"/></svg>'
+
+  it('reads back what was written and replaces the old metadata block', async () => {
+    const tagged = writeSvgMetadata(svg, FIELDS)
+    const meta = await readExistingMetadata(asFile(tagged, 'icon.svg', 'image/svg+xml'))
+    expect(meta).toMatchObject({
+      title: FIELDS.title,
+      keywords: FIELDS.keywords,
+      description: FIELDS.description,
+    })
+    expect(tagged.match(/<metadata>/g)).toHaveLength(1)
+    expect(tagged).toContain('<rect width="10" height="10"/>')
+  })
+})
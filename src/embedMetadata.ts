@@ -0,0 +1,275 @@
+/** ----- Write title / keywords / description into the file bytes ----- */
+
+export interface EmbeddedFields {
+  title: string
+  keywords: string[]
+  description: string
+}
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0'
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0'
+
+const encoder = new TextEncoder()
+
+export function splitKeywords(keywords: string): string[] {
+  return keywords
+    .split(/[,;\n]/)
+    .map((k) => k.trim())
+    .filter(Boolean)
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0))
+  let pos = 0
+  chunks.forEach((c) => {
+    out.set(c, pos)
+    pos += c.length
+  })
+  return out
+}
+
+function startsWithAscii(bytes: Uint8Array, offset: number, text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false
+  }
+  return true
+}
+
+/** dc:title / dc:description (x-default) and dc:subject bag, the fields stock sites read. */
+export function buildRdfDescription(fields: EmbeddedFields): string {
+  const items = fields.keywords.map((k) => `<rdf:li>${escapeXml(k)}</rdf:li>`).join('')
+  return (
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+    `<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(fields.title)}</rdf:li></rdf:Alt></dc:title>` +
+    `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(
+      fields.description,
+    )}</rdf:li></rdf:Alt></dc:description>` +
+    `<dc:subject><rdf:Bag>${items}</rdf:Bag></dc:subject>` +
+    '</rdf:Description></rdf:RDF>'
+  )
+}
+
+export function buildXmpPacket(fields: EmbeddedFields): string {
+  return (
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">' +
+    buildRdfDescription(fields) +
+    '</x:xmpmeta>' +
+    '<?xpacket end="w"?>'
+  )
+}
+
+/** ----- JPEG: APP1 XMP + APP13 IPTC ----- */
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const length = payload.length + 2
+  if (length > 0xffff) throw new Error('Metadata too large for a JPEG segment')
+  return concatBytes([Uint8Array.from([0xff, marker, length >> 8, length & 0xff]), payload])
+}
+
+// cut at a character boundary so multi-byte UTF-8 isn't split
+function utf8Truncate(text: string, maxBytes: number): Uint8Array {
+  let out = encoder.encode(text)
+  let chars = Array.from(text)
+  while (out.length > maxBytes) {
+    chars = chars.slice(0, -1)
+    out = encoder.encode(chars.join(''))
+  }
+  return out
+}
+
+function iptcDataset(dataset: number, value: string | Uint8Array, maxBytes: number): Uint8Array {
+  const data = typeof value === 'string' ? utf8Truncate(value, maxBytes) : value
+  return concatBytes([
+    Uint8Array.from([0x1c, 2, dataset, data.length >> 8, data.length & 0xff]),
+    data,
+  ])
+}
+
+// IPTC IIM inside a Photoshop 8BIM 0x0404 resource, UTF-8 declared via 1:90
+export function buildIptcBlock(fields: EmbeddedFields): Uint8Array {
+  const iim = concatBytes([
+    Uint8Array.from([0x1c, 1, 90, 0, 3, 0x1b, 0x25, 0x47]),
+    iptcDataset(0, Uint8Array.from([0, 4]), 2),
+    iptcDataset(5, fields.title, 64),
+    iptcDataset(120, fields.description, 2000),
+    ...fields.keywords.map((k) => iptcDataset(25, k, 64)),
+  ])
+  const padded = iim.length % 2 ? concatBytes([iim, Uint8Array.from([0])]) : iim
+  const size = iim.length
+  return concatBytes([
+    encoder.encode('8BIM'),
+    Uint8Array.from([0x04, 0x04, 0, 0, size >>> 24, (size >> 16) & 0xff, (size >> 8) & 0xff, size & 0xff]),
+    padded,
+  ])
+}
+
+/**
+ * Replace XMP (APP1) and IPTC (APP13) in a JPEG. New segments go after JFIF/EXIF;
+ * other APP13 Photoshop resources are dropped along with the old IPTC.
+ */
+export function writeJpegMetadata(bytes: Uint8Array, fields: EmbeddedFields): Uint8Array {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error('Not a JPEG file')
+
+  const kept: Uint8Array[] = []
+  let insertAt = 0
+  let pos = 2
+
+  while (pos + 4 <= bytes.length && bytes[pos] === 0xff) {
+    const marker = bytes[pos + 1]
+    // SOS: the rest is image data
+    if (marker === 0xda) break
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3]
+    const segment = bytes.subarray(pos, pos + 2 + length)
+    const payloadStart = pos + 4
+
+    const isXmp = marker === 0xe1 && startsWithAscii(bytes, payloadStart, XMP_HEADER)
+    const isIptc = marker === 0xed && startsWithAscii(bytes, payloadStart, PHOTOSHOP_HEADER)
+    if (!isXmp && !isIptc) {
+      kept.push(segment)
+      // JFIF (APP0) and EXIF (APP1) stay in front of ours
+      if (insertAt === kept.length - 1 && (marker === 0xe0 || marker === 0xe1)) {
+        insertAt = kept.length
+      }
+    }
+    pos += 2 + length
+  }
+
+  const xmp = jpegSegment(
+    0xe1,
+    concatBytes([encoder.encode(XMP_HEADER), encoder.encode(buildXmpPacket(fields))]),
+  )
+  const iptc = jpegSegment(
+    0xed,
+    concatBytes([encoder.encode(PHOTOSHOP_HEADER), buildIptcBlock(fields)]),
+  )
+
+  return concatBytes([
+    Uint8Array.from([0xff, 0xd8]),
+    ...kept.slice(0, insertAt),
+    xmp,
+    iptc,
+    ...kept.slice(insertAt),
+    bytes.subarray(pos),
+  ])
+}
+
+/** ----- PNG: iTXt chunks ----- */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const typeBytes = encoder.encode(type)
+  const len = data.length
+  const crc = crc32(concatBytes([typeBytes, data]))
+  return concatBytes([
+    Uint8Array.from([len >>> 24, (len >> 16) & 0xff, (len >> 8) & 0xff, len & 0xff]),
+    typeBytes,
+    data,
+    Uint8Array.from([crc >>> 24, (crc >> 16) & 0xff, (crc >> 8) & 0xff, crc & 0xff]),
+  ])
+}
+
+// keyword \0, compression flag 0, method 0, empty language \0, empty translated keyword \0, UTF-8 text
+function iTxtChunk(keyword: string, text: string): Uint8Array {
+  return pngChunk(
+    'iTXt',
+    concatBytes([encoder.encode(keyword), Uint8Array.from([0, 0, 0, 0, 0]), encoder.encode(text)]),
+  )
+}
+
+const PNG_TEXT_KEYWORDS = ['XML:com.adobe.xmp', 'Title', 'Description', 'Keywords']
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+/** Replace XMP + Title/Description/Keywords text chunks; new ones go right after IHDR. */
+export function writePngMetadata(bytes: Uint8Array, fields: EmbeddedFields): Uint8Array {
+  if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) throw new Error('Not a PNG file')
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const chunks: Uint8Array[] = []
+  let pos = 8
+
+  while (pos + 12 <= bytes.length) {
+    const length = view.getUint32(pos)
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8))
+    const chunk = bytes.subarray(pos, pos + 12 + length)
+    pos += 12 + length
+
+    if (type === 'iTXt' || type === 'tEXt' || type === 'zTXt') {
+      const data = chunk.subarray(8, 8 + length)
+      const nul = data.indexOf(0)
+      const keyword = String.fromCharCode(...data.subarray(0, nul === -1 ? 0 : nul))
+      if (PNG_TEXT_KEYWORDS.includes(keyword)) continue
+    }
+    chunks.push(chunk)
+    if (type === 'IHDR') {
+      chunks.push(
+        iTxtChunk('XML:com.adobe.xmp', buildXmpPacket(fields)),
+        iTxtChunk('Title', fields.title),
+        iTxtChunk('Description', fields.description),
+        iTxtChunk('Keywords', fields.keywords.join(', ')),
+      )
+    }
+    if (type === 'IEND') break
+  }
+
+  return concatBytes([Uint8Array.from(PNG_SIGNATURE), ...chunks])
+}
+
+/** ----- SVG: <metadata> RDF block ----- */
+
+export function writeSvgMetadata(svg: string, fields: EmbeddedFields): string {
+  const withoutOld = svg
+    .replace(/<metadata\b[^>]*\/>/gi, '')
+    .replace(/<metadata\b[^>]*>[\s\S]*?<\/metadata>/gi, '')
+  const block = `<metadata>${buildRdfDescription(fields)}</metadata>`
+  const titleBlock = fields.title ? `<title>${escapeXml(fields.title)}</title>` : ''
+
+  const open = withoutOld.match(/<svg\b[^>]*>/i)
+  if (!open || open.index === undefined) throw new Error('Not an SVG file')
+  const at = open.index + open[0].length
+  // keep an existing <title>, otherwise add one for accessibility / DAM previews
+  const hasTitle = /<title\b/i.test(withoutOld)
+  return withoutOld.slice(0, at) + (hasTitle ? '' : titleBlock) + block + withoutOld.slice(at)
+}
+
+export type TaggableKind = 'jpeg' | 'png' | 'svg'
+
+export function taggableKind(file: File): TaggableKind | null {
+  if (file.type === 'image/jpeg' || /\.jpe?g$/i.test(file.name)) return 'jpeg'
+  if (file.type === 'image/png' || /\.png$/i.test(file.name)) return 'png'
+  if (file.type === 'image/svg+xml' || /\.svg$/i.test(file.name)) return 'svg'
+  return null
+}
+
+/** Tagged copy of the file as bytes, or null when the format isn't supported. */
+export async function tagFile(file: File, fields: EmbeddedFields): Promise<Uint8Array | null> {
+  const kind = taggableKind(file)
+  if (kind === 'svg') return encoder.encode(writeSvgMetadata(await file.text(), fields))
+  if (!kind) return null
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  return kind === 'jpeg' ? writeJpegMetadata(bytes, fields) : writePngMetadata(bytes, fields)
+}
@@ -0,0 +1,79 @@
+/** ----- Errors raised by model API calls ----- */
+
+export class ApiError extends Error {
+  status: number
+  body: string
+
+  constructor(message: string, status: number, body: string) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.body = body
+  }
+}
+
+export type ErrorKind =
+  | 'network'
+  | 'rate-limit'
+  | 'auth'
+  | 'safety'
+  | 'parse'
+  | 'unsupported'
+  | 'unknown'
+
+export const ERROR_KIND_LABELS: Record<ErrorKind, string> = {
+  network: 'Network',
+  'rate-limit': 'Rate limit',
+  auth: 'Auth',
+  safety: 'Safety block',
+  parse: 'Unparseable JSON',
+  unsupported: 'Unsupported file',
+  unknown: 'Unknown',
+}
+
+/** Error whose category is known where it is thrown. */
+export class GenerationError extends Error {
+  kind: ErrorKind
+
+  constructor(kind: ErrorKind, message: string) {
+    super(message)
+    this.name = 'GenerationError'
+    this.kind = kind
+  }
+}
+
+export function classifyError(err: unknown): ErrorKind {
+  if (err instanceof GenerationError) return err.kind
+  if (err instanceof ApiError) {
+    if (err.status === 429 || /RESOURCE_EXHAUSTED/.test(err.body)) return 'rate-limit'
+    if (err.status === 401 || err.status === 403) return 'auth'
+    if (err.status === 400 && /API_KEY_INVALID|API key not valid/i.test(err.body)) return 'auth'
+    if (err.status >= 500 || err.status === 408) return 'network'
+    return 'unknown'
+  }
+  // fetch() rejects with TypeError when the request never got a response
+  if (err instanceof TypeError) return 'network'
+  return 'unknown'
+}
+
+/** Worth retrying with backoff; everything else fails fast. */
+export function isTransient(kind: ErrorKind): boolean {
+  return kind === 'network' || kind === 'rate-limit' || kind === 'parse'
+}
+
+/** Short reason for the file row, e.g. "Rate limit: Quota exceeded (429)". */
+export function describeError(err: unknown): string {
+  const kind = classifyError(err)
+  let detail = err instanceof Error ? err.message : String(err || 'Unknown error')
+
+  if (err instanceof ApiError) {
+    try {
+      const parsed = JSON.parse(err.body)
+      detail = `${parsed?.error?.message || `HTTP ${err.status}`} (${err.status})`
+    } catch {
+      detail = `HTTP ${err.status}`
+    }
+  }
+
+  return `${ERROR_KIND_LABELS[kind]}: ${detail.slice(0, 160)}`
+}
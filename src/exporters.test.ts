@@ -0,0 +1,87 @@
+/// <reference types="vite/client" />
+import { describe, expect, it } from 'vitest'
+import { buildPlatformCsv, PLATFORM_EXPORTERS } from './exporters'
+import { DEFAULT_FILE_FLAGS } from './flags'
+import type { FileItem, Platform } from './types'
+import adobeCsv from './__fixtures__/exporters/adobe.csv?raw'
+import freepikCsv from './__fixtures__/exporters/freepik.csv?raw'
+import generalCsv from './__fixtures__/exporters/general.csv?raw'
+import shutterstockCsv from './__fixtures__/exporters/shutterstock.csv?raw'
+import vecteezyCsv from './__fixtures__/exporters/vecteezy.csv?raw'
+
+const FIXTURES: Record<Platform, string> = {
+  adobe: adobeCsv,
+  shutterstock: shutterstockCsv,
+  freepik: freepikCsv,
+  vecteezy: vecteezyCsv,
+  general: generalCsv,
+}
+
+function item(name: string, fields: Partial<FileItem>): FileItem {
+  return {
+    id: name,
+    file: new File([''], name),
+    title: '',
+    keywords: '',
+    description: '',
+    prompt: '',
+    shortPrompt: '',
+    negativePrompt: '',
+    status: 'success',
+    ...fields,
+  }
+}
+
+const ITEMS: FileItem[] = [
+  // plain row: nothing to quote except the keyword list on comma layouts
+  item('sunset.jpg', {
+    title: 'Sunset over calm sea',
+    keywords: 'sunset, sea, sky, orange',
+    description: 'Orange sunset over a calm sea',
+    categories: ['11', 'Nature'],
+  }),
+  // quotes, delimiters, a line break and surrounding spaces in the cells
+  item('quote;semi.jpg', {
+    title: 'The "golden" hour, at the beach',
+    keywords: 'beach; sand, "gold"',
+    description: 'First line\nsecond line',
+    prompt: ' golden hour beach; film look',
+    categories: ['Food and drink', 'Nature', 'Made up'],
+    flags: { editorial: true, mature: true, aiGenerated: true, releases: 'MR1.pdf, PR2.pdf' },
+  }),
+  // vectors count as illustrations unless the row says otherwise
+  item('icon.eps', { title: ' Flat icon set', keywords: 'icon', categories: ['99'] }),
+  item('logo.svg', { title: 'Logo', keywords: 'logo', flags: { illustration: false } }),
+]
+
+describe('buildPlatformCsv', () => {
+  it.each(Object.keys(PLATFORM_EXPORTERS) as Platform[])('matches the %s fixture', (platform) => {
+    const csv = buildPlatformCsv(platform, ITEMS, DEFAULT_FILE_FLAGS)
+    expect(csv.replace(/\r\n/g, '\n')).toBe(FIXTURES[platform])
+  })
+
+  it('ends every line with CRLF', () => {
+    const csv = buildPlatformCsv('adobe', ITEMS)
+    expect(csv.split('\r\n')).toHaveLength(ITEMS.length + 2)
+    expect(csv.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/)
+  })
+
+  it('writes one Adobe category and at most two Shutterstock ones', () => {
+    const categories = ['3', '11', 'Nature', 'Animals/Wildlife', 'Food and drink']
+    const rows = [item('many.jpg', { categories })]
+    expect(buildPlatformCsv('adobe', rows).split('\r\n')[1]).toBe('many.jpg,,,3,')
+    expect(buildPlatformCsv('shutterstock', rows).split('\r\n')[1]).toBe(
+      'many.jpg,,,"Nature,Animals/Wildlife",no,no,no',
+    )
+  })
+
+  it('applies batch flag defaults under row overrides', () => {
+    const defaults = { ...DEFAULT_FILE_FLAGS, editorial: true, releases: 'MR-batch.pdf' }
+    const rows = buildPlatformCsv('general', ITEMS, defaults).trim().split('\r\n').slice(1)
+    expect(rows[0]).toBe(
+      '"sunset.jpg","Sunset over calm sea","sunset, sea, sky, orange",' +
+        '"Orange sunset over a calm sea","general","yes","no","no","no","MR-batch.pdf"',
+    )
+    expect(rows[1]).toContain('"MR1.pdf, PR2.pdf"')
+  })
+})
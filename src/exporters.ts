@@ -0,0 +1,156 @@
+import { CATEGORY_TAXONOMIES, isKnownCategory } from './categories'
+import { DEFAULT_FILE_FLAGS, resolveFlags } from './flags'
+import type { FileFlags, FileItem, Platform } from './types'
+
+/** ----- Platform CSV exporters ----- */
+
+export interface PlatformExporter {
+  label: string
+  header: string[]
+  delimiter: ',' | ';'
+  // true → every cell quoted, false → only cells that need it
+  quoteAll: boolean
+  row: (item: FileItem, flags: FileFlags) => string[]
+}
+
+// only values from this platform's list (the item may have been categorized for another
+// one), and no more than the column takes: Adobe's holds a single ID
+function categoryCell(item: FileItem, platform: Platform): string {
+  const max = CATEGORY_TAXONOMIES[platform]?.max ?? 0
+  return (item.categories || [])
+    .filter((c) => isKnownCategory(c, platform))
+    .slice(0, max)
+    .join(',')
+}
+
+function yesNo(value: boolean): string {
+  return value ? 'yes' : 'no'
+}
+
+function escapeCell(value: string, delimiter: string, quoteAll: boolean): string {
+  const text = String(value || '').replace(/\r?\n/g, ' ')
+  const needsQuote =
+    quoteAll || text.includes('"') || text.includes(delimiter) || /^\s|\s$/.test(text)
+  if (!needsQuote) return text
+  return `"${text.replace(/"/g, '""')}"`
+}
+
+export const PLATFORM_EXPORTERS: Record<Platform, PlatformExporter> = {
+  // Adobe Stock contributor CSV: Filename,Title,Keywords,Category,Releases
+  adobe: {
+    label: 'Adobe Stock',
+    header: ['Filename', 'Title', 'Keywords', 'Category', 'Releases'],
+    delimiter: ',',
+    quoteAll: false,
+    // no generative-AI column: that box is ticked in the portal (validation reminds)
+    row: (f, flags) => [f.file.name, f.title, f.keywords, categoryCell(f, 'adobe'), flags.releases],
+  },
+  // Shutterstock: title goes into "Description", flags as yes/no
+  shutterstock: {
+    label: 'Shutterstock',
+    header: [
+      'Filename',
+      'Description',
+      'Keywords',
+      'Categories',
+      'Editorial',
+      'Mature content',
+      'illustration',
+    ],
+    delimiter: ',',
+    quoteAll: false,
+    row: (f, flags) => [
+      f.file.name,
+      f.title,
+      f.keywords,
+      categoryCell(f, 'shutterstock'),
+      yesNo(flags.editorial),
+      yesNo(flags.mature),
+      yesNo(flags.illustration),
+    ],
+  },
+  // Freepik: semicolon separated, keywords stay comma separated inside the cell
+  freepik: {
+    label: 'Freepik',
+    header: ['File name', 'Title', 'Keywords', 'Prompt', 'Base-Model'],
+    delimiter: ';',
+    quoteAll: false,
+    // Prompt marks the file as AI-generated on Freepik
+    row: (f, flags) => [f.file.name, f.title, f.keywords, flags.aiGenerated ? f.prompt : '', ''],
+  },
+  vecteezy: {
+    label: 'Vecteezy',
+    header: ['Filename', 'Title', 'Description', 'Keywords', 'License'],
+    delimiter: ',',
+    quoteAll: false,
+    row: (f) => [f.file.name, f.title, f.description, f.keywords, 'pro'],
+  },
+  // generic layout: the old single export plus the flag columns
+  general: {
+    label: 'General',
+    header: [
+      'filename',
+      'title',
+      'keywords',
+      'description',
+      'platform',
+      'editorial',
+      'mature',
+      'illustration',
+      'ai_generated',
+      'releases',
+    ],
+    delimiter: ',',
+    quoteAll: true,
+    row: (f, flags) => [
+      f.file.name,
+      f.title,
+      f.keywords,
+      f.description,
+      'general',
+      yesNo(flags.editorial),
+      yesNo(flags.mature),
+      yesNo(flags.illustration),
+      yesNo(flags.aiGenerated),
+      flags.releases,
+    ],
+  },
+}
+
+export function buildPlatformCsv(
+  platform: Platform,
+  items: FileItem[],
+  flagDefaults: FileFlags = DEFAULT_FILE_FLAGS,
+): string {
+  const exporter = PLATFORM_EXPORTERS[platform]
+  const lines = [exporter.header, ...items.map((f) => exporter.row(f, resolveFlags(f, flagDefaults)))].map((r) =>
+    r.map((v) => escapeCell(v, exporter.delimiter, exporter.quoteAll)).join(exporter.delimiter),
+  )
+  return lines.join('\r\n') + '\r\n'
+}
+
+/** ----- Prompt mode export ----- */
+
+export function buildPromptsCsv(items: FileItem[]): string {
+  const header = ['filename', 'prompt', 'short_prompt', 'negative_prompt']
+  const lines = [
+    header,
+    ...items.map((f) => [f.file.name, f.prompt, f.shortPrompt, f.negativePrompt]),
+  ].map((r) => r.map((v) => escapeCell(v, ',', true)).join(','))
+  return lines.join('\r\n') + '\r\n'
+}
+
+// one block per file, blank line between blocks
+export function buildPromptsTxt(items: FileItem[]): string {
+  return items
+    .map((f) =>
+      [
+        `# ${f.file.name}`,
+        f.prompt,
+        `Short: ${f.shortPrompt}`,
+        `Negative: ${f.negativePrompt}`,
+      ].join('\n'),
+    )
+    .join('\n\n')
+    .concat('\n')
+}
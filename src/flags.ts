@@ -0,0 +1,30 @@
+import type { FileFlags, FileItem } from './types'
+import { isVectorFile } from './vectors'
+
+/** ----- Release / editorial / mature / AI flags ----- */
+
+export type BooleanFlag = Exclude<keyof FileFlags, 'releases'>
+
+export const DEFAULT_FILE_FLAGS: FileFlags = {
+  editorial: false,
+  mature: false,
+  illustration: false,
+  aiGenerated: false,
+  releases: '',
+}
+
+export const FLAG_LABELS: Record<BooleanFlag, string> = {
+  editorial: 'Editorial',
+  mature: 'Mature content',
+  illustration: 'Illustration',
+  aiGenerated: 'Generative AI',
+}
+
+/** Batch defaults with the row's overrides on top. Vectors count as illustrations unless the row says no. */
+export function resolveFlags(item: FileItem, defaults: FileFlags = DEFAULT_FILE_FLAGS): FileFlags {
+  const flags = { ...defaults, ...item.flags }
+  if (item.flags?.illustration === undefined && isVectorFile(item.file.name)) {
+    flags.illustration = true
+  }
+  return flags
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { applyImport, ImportedRow, ImportPlan } from './importCsv'
+import type { FileItem } from './types'
+
+function item(id: string, fields: Partial<FileItem> = {}): FileItem {
+  return {
+    id,
+    file: new File([''], `${id}.jpg`),
+    title: '',
+    keywords: '',
+    description: '',
+    prompt: '',
+    shortPrompt: '',
+    negativePrompt: '',
+    status: 'pending',
+    ...fields,
+  }
+}
+
+function plan(rows: Record<string, Partial<ImportedRow>>): ImportPlan {
+  const matches = new Map(
+    Object.entries(rows).map(([id, row]) => [
+      id,
+      { filename: `${id}.jpg`, title: '', keywords: '', description: '', ...row },
+    ]),
+  )
+  return {
+    sources: ['metadata.csv'],
+    matches,
+    report: { matched: matches.size, missingFromCsv: [], rowsWithoutFile: [], conflicts: [] },
+  }
+}
+
+describe('applyImport', () => {
+  it('marks files ready only when they end up with a title and keywords', () => {
+    const files = [
+      item('full'),
+      item('empty'),
+      item('title-only'),
+      item('failed', { status: 'failed', error: 'quota', keywords: 'cat, pet' }),
+    ]
+    const result = applyImport(
+      files,
+      plan({
+        full: { title: 'Cat', keywords: 'cat, pet' },
+        empty: {},
+        'title-only': { title: 'Dog' },
+        failed: { title: 'Cat on a sofa' },
+      }),
+      false,
+    )
+    expect(result.map((f) => f.status)).toEqual(['success', 'pending', 'pending', 'success'])
+    expect(result[3].error).toBe('')
+    expect(result[1]).toMatchObject({ title: '', keywords: '' })
+  })
+})
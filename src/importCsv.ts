@@ -0,0 +1,226 @@
+import JSZip from 'jszip'
+import type { FileItem } from './types'
+import { recordVersion } from './versions'
+
+/** ----- Metadata CSV import (our export + platform formats) ----- */
+
+export interface ImportedRow {
+  filename: string
+  title: string
+  keywords: string
+  description: string
+}
+
+export interface ImportConflict {
+  filename: string
+  field: 'title' | 'keywords' | 'description'
+  current: string
+  imported: string
+}
+
+export interface ImportReport {
+  matched: number
+  // uploaded files that no CSV row mentions
+  missingFromCsv: string[]
+  // CSV rows with no uploaded file
+  rowsWithoutFile: string[]
+  conflicts: ImportConflict[]
+}
+
+export interface ImportPlan {
+  sources: string[]
+  // file id → imported row
+  matches: Map<string, ImportedRow>
+  report: ImportReport
+}
+
+/** RFC 4180 parser: quoted cells, doubled quotes, CRLF/LF, given delimiter. */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"') {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim()))
+}
+
+// Freepik uses ";" – pick whichever delimiter splits the header into more columns
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/)[0] || ''
+  return firstLine.split(';').length > firstLine.split(',').length ? ';' : ','
+}
+
+/**
+ * Rows from any CSV we export. Header names decide the mapping; Shutterstock's
+ * "Description" column holds the title when there is no "Title" column.
+ */
+export function readMetadataCsv(text: string): ImportedRow[] {
+  const clean = text.replace(/^\uFEFF/, '')
+  const rows = parseCsv(clean, detectDelimiter(clean))
+  if (rows.length < 2) return []
+
+  const header = rows[0].map((h) => h.trim().toLowerCase())
+  const col = (...names: string[]) => header.findIndex((h) => names.includes(h))
+
+  const filenameCol = col('filename', 'file name', 'file')
+  const titleCol = col('title')
+  const descriptionCol = col('description')
+  const keywordsCol = col('keywords', 'tags')
+  if (filenameCol === -1) return []
+
+  const cell = (r: string[], i: number) => (i === -1 ? '' : (r[i] || '').trim())
+
+  return rows
+    .slice(1)
+    .map((r) => ({
+      filename: cell(r, filenameCol),
+      title: titleCol === -1 ? cell(r, descriptionCol) : cell(r, titleCol),
+      keywords: cell(r, keywordsCol),
+      description: titleCol === -1 ? '' : cell(r, descriptionCol),
+    }))
+    .filter((r) => r.filename)
+}
+
+/** Read .csv files directly and every .csv inside .zip files (our own export ZIP). */
+export async function readImportFiles(
+  fileList: File[],
+): Promise<{ rows: ImportedRow[]; sources: string[] }> {
+  const rows: ImportedRow[] = []
+  const sources: string[] = []
+
+  for (const file of fileList) {
+    if (/\.zip$/i.test(file.name)) {
+      const zip = await JSZip.loadAsync(file)
+      const entries = Object.values(zip.files).filter((e) => !e.dir && /\.csv$/i.test(e.name))
+      for (const entry of entries) {
+        rows.push(...readMetadataCsv(await entry.async('string')))
+        sources.push(`${file.name}/${entry.name}`)
+      }
+    } else {
+      rows.push(...readMetadataCsv(await file.text()))
+      sources.push(file.name)
+    }
+  }
+
+  return { rows, sources }
+}
+
+function nameKey(name: string): string {
+  return name.split(/[\\/]/).pop()!.trim().toLowerCase()
+}
+
+/** Match rows to files by name (case-insensitive, then by name without extension). */
+export function planImport(files: FileItem[], rows: ImportedRow[], sources: string[]): ImportPlan {
+  const byName = new Map<string, ImportedRow>()
+  const byStem = new Map<string, ImportedRow[]>()
+  rows.forEach((row) => {
+    // the same file can be in General.csv and e.g. SVG.csv – keep the first with data
+    const key = nameKey(row.filename)
+    const existing = byName.get(key)
+    if (!existing || (!existing.title && !existing.keywords)) byName.set(key, row)
+    const stem = key.replace(/\.[^.]+$/, '')
+    byStem.set(stem, [...(byStem.get(stem) || []), row])
+  })
+
+  const matches = new Map<string, ImportedRow>()
+  const usedRows = new Set<ImportedRow>()
+  const missingFromCsv: string[] = []
+  const conflicts: ImportConflict[] = []
+
+  files.forEach((f) => {
+    const key = nameKey(f.file.name)
+    let row = byName.get(key)
+    if (!row) {
+      const candidates = byStem.get(key.replace(/\.[^.]+$/, '')) || []
+      if (candidates.length === 1) row = candidates[0]
+    }
+    if (!row) {
+      missingFromCsv.push(f.file.name)
+      return
+    }
+
+    matches.set(f.id, row)
+    usedRows.add(row)
+    ;(['title', 'keywords', 'description'] as const).forEach((field) => {
+      const current = f[field].trim()
+      const imported = row![field].trim()
+      if (current && imported && current !== imported) {
+        conflicts.push({ filename: f.file.name, field, current, imported })
+      }
+    })
+  })
+
+  const rowsWithoutFile = Array.from(
+    new Set(
+      rows
+        .filter((r) => !usedRows.has(r) && !usedRows.has(byName.get(nameKey(r.filename))!))
+        .map((r) => r.filename),
+    ),
+  )
+
+  return {
+    sources,
+    matches,
+    report: { matched: matches.size, missingFromCsv, rowsWithoutFile, conflicts },
+  }
+}
+
+/**
+ * Apply a plan. `overwrite` false keeps current non-empty values on conflicts. Files end
+ * up ready only with a title and keywords; otherwise their status is left as it was.
+ */
+export function applyImport(files: FileItem[], plan: ImportPlan, overwrite: boolean): FileItem[] {
+  return files.map((f) => {
+    const row = plan.matches.get(f.id)
+    if (!row) return f
+    const pick = (current: string, imported: string) =>
+      imported && (overwrite || !current.trim()) ? imported : current
+    const next: FileItem = {
+      ...f,
+      title: pick(f.title, row.title),
+      keywords: pick(f.keywords, row.keywords),
+      description: pick(f.description, row.description),
+      versions: recordVersion(f),
+    }
+    // a row that leaves the file without a title or keywords doesn't make it ready
+    if (next.title.trim() && next.keywords.trim()) {
+      next.status = 'success'
+      next.error = ''
+      next.errorKind = undefined
+    }
+    return { ...next, versions: recordVersion(next, 'imported') }
+  })
+}
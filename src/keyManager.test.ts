@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { ApiError } from './errors'
+import { createKeyManager, KeyHealth } from './keyManager'
+
+describe('createKeyManager', () => {
+  it.each([401, 403])('marks a key invalid on %i and rotates past it', async (status) => {
+    let health: Record<string, KeyHealth> = {}
+    const manager = createKeyManager((snapshot) => (health = snapshot))
+    manager.reportFailure('dead', new ApiError('Unauthorized', status, '{}'))
+
+    expect(health.dead.state).toBe('invalid')
+    expect(await manager.acquireOrder(['dead', 'live'], () => false)).toEqual(['live'])
+  })
+
+  it('keeps a key active on a 400 that does not blame it', () => {
+    let health: Record<string, KeyHealth> = {}
+    const manager = createKeyManager((snapshot) => (health = snapshot))
+    manager.reportFailure('key', new ApiError('Bad request', 400, '{"error":"bad payload"}'))
+    expect(health.key.state).toBe('active')
+  })
+})
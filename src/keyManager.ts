@@ -0,0 +1,130 @@
+import { ApiError } from './errors'
+import { GenerationStoppedError } from './pool'
+
+/** ----- API key rotation with health tracking ----- */
+
+export type KeyState = 'active' | 'cooling' | 'invalid'
+
+export interface KeyHealth {
+  state: KeyState
+  requests: number
+  failures: number
+  cooldownUntil: number
+  lastError?: string
+}
+
+export interface KeyManager {
+  /** Healthy keys in round-robin order; waits while every key is cooling down. */
+  acquireOrder: (keys: string[], shouldStop: () => boolean) => Promise<string[]>
+  reportSuccess: (key: string) => void
+  reportFailure: (key: string, err: unknown) => void
+  /** Clear invalid/cooldown flags, e.g. after the keys are re-saved. */
+  reset: (keys: string[]) => void
+}
+
+const DEFAULT_COOLDOWN_MS = 60_000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Gemini puts the suggested wait in RetryInfo: "retryDelay": "37s"
+function retryDelayMs(body: string): number {
+  const match = body.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/)
+  return match ? Math.ceil(Number(match[1]) * 1000) : DEFAULT_COOLDOWN_MS
+}
+
+function isQuotaError(err: unknown): boolean {
+  if (err instanceof ApiError) {
+    return err.status === 429 || /RESOURCE_EXHAUSTED/.test(err.body)
+  }
+  return false
+}
+
+// 401/403 always (OpenAI-compatible servers answer a bad key with 401), 400 only when
+// the body blames the key (400 is also a bad payload)
+function isInvalidKeyError(err: unknown): boolean {
+  if (!(err instanceof ApiError)) return false
+  if (err.status === 401 || err.status === 403) return true
+  return err.status === 400 && /API_KEY_INVALID|API key not valid/i.test(err.body)
+}
+
+export function createKeyManager(
+  onChange: (snapshot: Record<string, KeyHealth>) => void,
+): KeyManager {
+  const health = new Map<string, KeyHealth>()
+  let cursor = 0
+
+  const get = (key: string): KeyHealth => {
+    let entry = health.get(key)
+    if (!entry) {
+      entry = { state: 'active', requests: 0, failures: 0, cooldownUntil: 0 }
+      health.set(key, entry)
+    }
+    // cooldown over → back in rotation
+    if (entry.state === 'cooling' && entry.cooldownUntil <= Date.now()) {
+      entry.state = 'active'
+    }
+    return entry
+  }
+
+  const emit = () => {
+    const snapshot: Record<string, KeyHealth> = {}
+    health.forEach((_, key) => {
+      snapshot[key] = { ...get(key) }
+    })
+    onChange(snapshot)
+  }
+
+  const acquireOrder = async (keys: string[], shouldStop: () => boolean) => {
+    for (;;) {
+      if (shouldStop()) throw new GenerationStoppedError()
+
+      const start = cursor++ % keys.length
+      const rotated = keys.map((_, i) => keys[(start + i) % keys.length])
+      const active = rotated.filter((k) => get(k).state === 'active')
+      if (active.length) {
+        emit()
+        return active
+      }
+
+      const cooling = keys.map(get).filter((h) => h.state === 'cooling')
+      if (!cooling.length) {
+        throw new Error('All API keys are invalid. Fix and re-save them.')
+      }
+      const wait = Math.min(...cooling.map((h) => h.cooldownUntil)) - Date.now()
+      await sleep(Math.max(100, Math.min(wait, 500)))
+    }
+  }
+
+  const reportSuccess = (key: string) => {
+    const entry = get(key)
+    entry.requests++
+    entry.lastError = undefined
+    emit()
+  }
+
+  const reportFailure = (key: string, err: unknown) => {
+    const entry = get(key)
+    entry.requests++
+    entry.failures++
+    entry.lastError = err instanceof Error ? err.message : String(err)
+
+    if (isInvalidKeyError(err)) {
+      entry.state = 'invalid'
+    } else if (isQuotaError(err)) {
+      entry.state = 'cooling'
+      entry.cooldownUntil = Date.now() + retryDelayMs((err as ApiError).body)
+    }
+    emit()
+  }
+
+  const reset = (keys: string[]) => {
+    keys.forEach((key) => {
+      const entry = get(key)
+      entry.state = 'active'
+      entry.cooldownUntil = 0
+    })
+    emit()
+  }
+
+  return { acquireOrder, reportSuccess, reportFailure, reset }
+}
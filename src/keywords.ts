@@ -0,0 +1,260 @@
+import { foldKeywords, keywordKey, SynonymTable } from './normalize'
+import type { KeywordPolicy, MediaKind, PaddingMode, Platform } from './types'
+import { isVectorFile } from './vectors'
+import { isVideoFile } from './video'
+
+/** ----- Keyword phrase policy ----- */
+
+// 'keep' → "hot air balloon", 'split' → "hot", "air", "balloon", 'join' → "hotairballoon"
+export const PLATFORM_KEYWORD_POLICY: Record<Platform, KeywordPolicy> = {
+  adobe: 'keep',
+  shutterstock: 'keep',
+  freepik: 'keep',
+  vecteezy: 'split',
+  general: 'keep',
+}
+
+export const KEYWORD_POLICY_LABELS: Record<KeywordPolicy, string> = {
+  keep: 'Keep phrases',
+  split: 'Split phrases into words',
+  join: 'Join phrase words',
+}
+
+/** ----- Title cleaner ----- */
+export function normalizeTitle(raw: string): string {
+  let text = raw
+    .replace(/[0-9#_=+*{}\[\];:<>/\\|~`"“”'’.,!?()-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+
+  if (!text) return ''
+
+  const words = text.split(' ')
+  const unique: string[] = []
+  const seen = new Set<string>()
+
+  for (const w of words) {
+    if (!w) continue
+    if (!seen.has(w)) {
+      seen.add(w)
+      unique.push(w)
+    }
+  }
+
+  const cleaned = unique.join(' ')
+  return cleaned.charAt(0).toUpperCase() + cleaned.slice(1)
+}
+
+/** ----- Keyword cleaner: policy অনুযায়ী phrase রাখা / ভাঙা / জোড়া + ডুপ্লিকেট রিমুভ ----- */
+function applyKeywordPolicy(phrase: string, policy: KeywordPolicy): string[] {
+  const words = phrase.split(/\s+/).filter(Boolean)
+  if (policy === 'split') return words
+  if (policy === 'join') return [words.join('')]
+  return [words.join(' ')]
+}
+
+export function autoCleanKeywords(
+  raw: string,
+  autoRemoveDupKeywords: boolean,
+  bulkKeywordExtra: string,
+  policy: KeywordPolicy = 'keep',
+): string {
+  const base = raw + (bulkKeywordExtra ? ',' + bulkKeywordExtra : '')
+
+  let tokens = base
+    .toLowerCase()
+    .split(/[,;\n]/)
+    .map((t) => t.trim())
+    .filter(Boolean)
+    // "hot air balloon" → policy: keep / split into words / join
+    .flatMap((t) => applyKeywordPolicy(t, policy))
+    .filter(Boolean)
+
+  if (autoRemoveDupKeywords) {
+    const unique: string[] = []
+    const seen = new Set<string>()
+    for (const t of tokens) {
+      if (!seen.has(t)) {
+        seen.add(t)
+        unique.push(t)
+      }
+    }
+    tokens = unique
+  }
+
+  return tokens.join(', ')
+}
+
+/**
+ * ----- base + bulk keyword merge, trimmed to the target count -----
+ * With a synonym table, plural / spelling / synonym variants are folded before
+ * trimming, so the slots go to distinct terms.
+ */
+export function buildKeywords(
+  baseKeywords: string,
+  bulkKeywordText: string,
+  autoRemoveDupKeywords: boolean,
+  targetCount: number,
+  policy: KeywordPolicy = 'keep',
+  synonyms: SynonymTable | null = null,
+): { keywords: string; merged: string[] } {
+  // base + bulk একসাথে ক্লিন করি
+  let combined = autoCleanKeywords(
+    baseKeywords,
+    autoRemoveDupKeywords,
+    bulkKeywordText || '',
+    policy,
+  )
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean)
+
+  // শুধু bulk keyword আলাদা করে parse করি – যাতে সবসময় আগে থাকে
+  let bulkTokens: string[] = []
+  if (bulkKeywordText && bulkKeywordText.trim()) {
+    bulkTokens = autoCleanKeywords(bulkKeywordText, autoRemoveDupKeywords, '', policy)
+      .split(',')
+      .map((t) => t.trim())
+      .filter(Boolean)
+  }
+
+  if (bulkTokens.length) {
+    const reordered: string[] = []
+    const seen = new Set<string>()
+
+    for (const word of bulkTokens) {
+      if (!seen.has(word)) {
+        reordered.push(word)
+        seen.add(word)
+      }
+    }
+
+    for (const t of combined) {
+      if (!seen.has(t)) {
+        reordered.push(t)
+        seen.add(t)
+      }
+    }
+
+    combined = reordered
+  }
+
+  let merged: string[] = []
+  if (synonyms) {
+    const folded = foldKeywords(combined, synonyms, autoRemoveDupKeywords)
+    combined = folded.tokens
+    merged = folded.merged
+  }
+
+  return { keywords: combined.slice(0, targetCount).join(', '), merged }
+}
+
+/** ----- Padding short keyword lists ----- */
+
+export const MEDIA_KIND_LABELS: Record<MediaKind, string> = {
+  photo: 'Photos',
+  vector: 'Vectors',
+  video: 'Videos',
+}
+
+export const PADDING_MODE_LABELS: Record<PaddingMode, string> = {
+  model: 'Ask the model for more',
+  pool: 'Fill from word pool',
+  off: 'Off (flag short files)',
+}
+
+// generic but still true for most files of each kind
+export const DEFAULT_FILLER_POOLS: Record<MediaKind, string[]> = {
+  photo: [
+    'photography',
+    'photo',
+    'image',
+    'color',
+    'detail',
+    'scene',
+    'view',
+    'closeup',
+    'nobody',
+    'natural',
+    'real',
+    'background',
+  ],
+  vector: [
+    'vector',
+    'illustration',
+    'design',
+    'art',
+    'graphic',
+    'symbol',
+    'icon',
+    'minimal',
+    'modern',
+    'abstract',
+    'background',
+    'template',
+    'creative',
+    'digital',
+    'silhouette',
+    'pattern',
+    'shape',
+    'line',
+    'curve',
+    'poster',
+    'print',
+    'concept',
+  ],
+  video: ['footage', 'video', 'clip', 'motion', 'scene', 'movement', 'moving', 'real time', 'hd'],
+}
+
+/** EPS/AI/SVG → vector, video → video, everything else is treated as a photo. */
+export function mediaKindOf(file: File): MediaKind {
+  if (isVideoFile(file)) return 'video'
+  if (isVectorFile(file.name)) return 'vector'
+  return 'photo'
+}
+
+export function parseFillerPool(text: string): string[] {
+  return text
+    .split(/[,\n]/)
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/** Append pool words that aren't already present until the target count is reached. */
+export function padKeywords(
+  keywords: string,
+  extra: string[],
+  targetCount: number,
+  policy: KeywordPolicy = 'keep',
+  synonyms: SynonymTable | null = null,
+): string {
+  const combined = keywords
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean)
+
+  const cleanedExtra = autoCleanKeywords(extra.join(', '), true, '', policy)
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean)
+
+  const keyOf = (word: string) => (synonyms ? keywordKey(word, synonyms) : word)
+  const present = new Set(combined.map(keyOf))
+  for (const word of cleanedExtra) {
+    if (combined.length >= targetCount) break
+    if (!present.has(keyOf(word))) {
+      combined.push(word)
+      present.add(keyOf(word))
+    }
+  }
+
+  return combined.slice(0, targetCount).join(', ')
+}
+
+export function countKeywords(keywords: string): number {
+  return keywords
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean).length
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { BUILT_IN_SYNONYMS, foldKeywords, singularize } from './normalize'
+
+describe('singularize', () => {
+  it.each([
+    ['buses', 'bus'],
+    ['gases', 'gas'],
+    ['lenses', 'lens'],
+    ['houses', 'house'],
+    ['cases', 'case'],
+    ['boxes', 'box'],
+    ['waltzes', 'waltz'],
+    ['buzzes', 'buzz'],
+    ['quizzes', 'quiz'],
+    ['prizes', 'prize'],
+    ['churches', 'church'],
+    ['headaches', 'headache'],
+    ['dishes', 'dish'],
+    ['classes', 'class'],
+    ['berries', 'berry'],
+    ['tomatoes', 'tomato'],
+    ['cats', 'cat'],
+    ['bus', 'bus'],
+    ['grass', 'grass'],
+  ])('%s → %s', (plural, singular) => {
+    expect(singularize(plural)).toBe(singular)
+  })
+})
+
+describe('foldKeywords', () => {
+  it('merges plural and spelling variants into the first one seen', () => {
+    const result = foldKeywords(['cat', 'colour', 'cats', 'color', 'dog'], BUILT_IN_SYNONYMS)
+    expect(result.tokens).toEqual(['cat', 'colour', 'dog'])
+    expect(result.merged).toEqual(['cats → cat', 'color → colour'])
+  })
+
+  it('keeps distinct terms whose naive singular would collide', () => {
+    const result = foldKeywords(['bus', 'buses', 'buse'], new Map())
+    expect(result.tokens).toEqual(['bus', 'buse'])
+  })
+
+  it('drops exact repeats only when asked to', () => {
+    const tokens = ['sea', 'beach', 'sea']
+    expect(foldKeywords(tokens, new Map()).tokens).toEqual(['sea', 'beach'])
+    const kept = foldKeywords(tokens, new Map(), false)
+    expect(kept.tokens).toEqual(['sea', 'beach', 'sea'])
+    expect(kept.merged).toEqual(['sea (repeated)'])
+  })
+})
@@ -0,0 +1,291 @@
+/** ----- Offline English keyword normalizer (plurals, spellings, synonyms) ----- */
+
+// variant → the group's first term
+export type SynonymTable = Map<string, string>
+
+export interface FoldResult {
+  tokens: string[]
+  // "cats → cat", one per dropped variant (or kept repeat)
+  merged: string[]
+}
+
+/**
+ * Text format used for the built-in table and the user's additions:
+ * one group per line, comma separated, first term is the one the others fold into.
+ * "#" comments. Later lines win when a term appears in two groups.
+ */
+export const BUILT_IN_SYNONYM_GROUPS_TEXT = `
+# US / UK spellings
+color, colour
+gray, grey
+center, centre
+theater, theatre
+favorite, favourite
+flavor, flavour
+harbor, harbour
+honor, honour
+humor, humour
+labor, labour
+neighbor, neighbour
+behavior, behaviour
+jewelry, jewellery
+aluminum, aluminium
+airplane, aeroplane
+donut, doughnut
+organize, organise
+organization, organisation
+realize, realise
+recognize, recognise
+analyze, analyse
+catalog, catalogue
+fiber, fibre
+liter, litre
+meter, metre
+pajamas, pyjamas
+tire, tyre
+mold, mould
+plow, plough
+cozy, cosy
+defense, defence
+license, licence
+traveling, travelling
+traveler, traveller
+mustache, moustache
+# synonyms
+sofa, couch
+smartphone, mobile phone, cell phone, cellphone
+t-shirt, tshirt, tee shirt
+`
+
+// singular words ending in "s", and nouns with no separate plural
+const UNINFLECTED = new Set([
+  'always',
+  'perhaps',
+  'outdoors',
+  'indoors',
+  'upstairs',
+  'downstairs',
+  'overseas',
+  'towards',
+  'afterwards',
+  'backwards',
+  'sideways',
+  'lens',
+  'gas',
+  'canvas',
+  'atlas',
+  'bias',
+  'christmas',
+  'pajamas',
+  'pyjamas',
+  'news',
+  'series',
+  'species',
+  'means',
+  'athletics',
+  'physics',
+  'economics',
+  'mathematics',
+  'politics',
+  'gymnastics',
+  'aerobics',
+  'jeans',
+  'pants',
+  'shorts',
+  'trousers',
+  'scissors',
+  'glasses',
+  'sunglasses',
+  'binoculars',
+  'clothes',
+  'thanks',
+  'sheep',
+  'deer',
+  'fish',
+  'aircraft',
+  'moose',
+  'bison',
+  'salmon',
+  'trout',
+])
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  children: 'child',
+  people: 'person',
+  men: 'man',
+  women: 'woman',
+  feet: 'foot',
+  teeth: 'tooth',
+  mice: 'mouse',
+  geese: 'goose',
+  oxen: 'ox',
+  leaves: 'leaf',
+  wolves: 'wolf',
+  knives: 'knife',
+  wives: 'wife',
+  lives: 'life',
+  loaves: 'loaf',
+  halves: 'half',
+  shelves: 'shelf',
+  calves: 'calf',
+  thieves: 'thief',
+  scarves: 'scarf',
+  cacti: 'cactus',
+  fungi: 'fungus',
+  quizzes: 'quiz',
+}
+
+// "-ie" nouns whose plural would otherwise fold to "-y" (movies → movy)
+const IE_NOUNS = new Set([
+  'movie',
+  'cookie',
+  'zombie',
+  'selfie',
+  'smoothie',
+  'brownie',
+  'hoodie',
+  'calorie',
+  'rookie',
+  'pixie',
+  'genie',
+  'prairie',
+  'boogie',
+])
+
+// "-che" nouns whose plural would otherwise lose the "e" (headaches → headach)
+const CHE_NOUNS = new Set([
+  'ache',
+  'headache',
+  'cache',
+  'niche',
+  'mustache',
+  'moustache',
+  'avalanche',
+  'cliche',
+  'quiche',
+  'psyche',
+])
+
+// "-s" nouns that take "-es"; other "-ses" plurals just add "s" (houses, cases, roses)
+const SES_PLURALS = new Set([
+  'buses',
+  'gases',
+  'lenses',
+  'bonuses',
+  'viruses',
+  'campuses',
+  'circuses',
+  'cactuses',
+  'censuses',
+  'choruses',
+  'walruses',
+  'octopuses',
+  'canvases',
+  'atlases',
+  'aliases',
+  'irises',
+])
+
+// "-o" nouns that take "-es"
+const OES_PLURALS = new Set([
+  'tomatoes',
+  'potatoes',
+  'heroes',
+  'echoes',
+  'volcanoes',
+  'mangoes',
+  'mosquitoes',
+  'torpedoes',
+  'dominoes',
+  'tornadoes',
+])
+
+/** Rule-based singular form of one lowercase word. Unknown or short words come back unchanged. */
+export function singularize(word: string): string {
+  if (word.length <= 3 || UNINFLECTED.has(word)) return word
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word]
+  if (!word.endsWith('s')) return word
+  if (/(ss|us|is)$/.test(word)) return word
+
+  if (word.endsWith('ies') && word.length > 4) {
+    const stem = word.slice(0, -3)
+    return IE_NOUNS.has(`${stem}ie`) ? `${stem}ie` : `${stem}y`
+  }
+  if (OES_PLURALS.has(word) || SES_PLURALS.has(word)) return word.slice(0, -2)
+  if (/(sses|xes|zzes|tzes|shes)$/.test(word)) return word.slice(0, -2)
+  if (word.endsWith('ches')) {
+    return CHE_NOUNS.has(word.slice(0, -1)) ? word.slice(0, -1) : word.slice(0, -2)
+  }
+  return word.slice(0, -1)
+}
+
+export function parseSynonymGroups(text: string, into: SynonymTable = new Map()): SynonymTable {
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) continue
+    const terms = line
+      .split(',')
+      .map((t) => t.trim().toLowerCase().replace(/\s+/g, ' '))
+      .filter(Boolean)
+    if (terms.length < 2) continue
+    const [canonical, ...variants] = terms
+    for (const variant of variants) {
+      into.set(variant, canonical)
+    }
+  }
+  return into
+}
+
+export const BUILT_IN_SYNONYMS = parseSynonymGroups(BUILT_IN_SYNONYM_GROUPS_TEXT)
+
+function singularPhrase(term: string): string {
+  const words = term.split(' ')
+  words[words.length - 1] = singularize(words[words.length - 1])
+  return words.join(' ')
+}
+
+/** Comparison key: terms with the same key are the same keyword ("Cats" / "cat", "colour" / "color"). */
+export function keywordKey(term: string, table: SynonymTable): string {
+  const lower = term.trim().toLowerCase().replace(/\s+/g, ' ')
+  const direct = table.get(lower) ?? table.get(singularPhrase(lower))
+  if (direct) return singularPhrase(direct)
+
+  return lower
+    .split(' ')
+    .map((w) => {
+      const singular = singularize(table.get(w) ?? w)
+      return table.get(singular) ?? singular
+    })
+    .join(' ')
+}
+
+/**
+ * Drop later variants of terms already in the list; the first spelling seen is kept.
+ * Exact repeats are dropped only with `removeDuplicates`, otherwise they stay and are
+ * reported as "x (repeated)".
+ */
+export function foldKeywords(
+  tokens: string[],
+  table: SynonymTable,
+  removeDuplicates = true,
+): FoldResult {
+  const keptByKey = new Map<string, string>()
+  const result: string[] = []
+  const merged: string[] = []
+
+  for (const token of tokens) {
+    const key = keywordKey(token, table)
+    const kept = keptByKey.get(key)
+    if (kept === undefined) {
+      keptByKey.set(key, token)
+      result.push(token)
+    } else if (kept !== token) {
+      merged.push(`${token} → ${kept}`)
+    } else if (!removeDuplicates) {
+      result.push(token)
+      merged.push(`${token} (repeated)`)
+    }
+  }
+
+  return { tokens: result, merged }
+}
@@ -0,0 +1,79 @@
+/** ----- Bounded worker pool + per-key rate limiting ----- */
+
+export class GenerationStoppedError extends Error {
+  constructor() {
+    super('Generation stopped by user')
+    this.name = 'GenerationStoppedError'
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Run `worker` over `items` with at most `concurrency` in flight. Once
+ * `shouldStop()` turns true no new item is started; running ones finish.
+ * Resolves `true` when stopped early.
+ */
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean,
+): Promise<boolean> {
+  let next = 0
+  let stopped = false
+
+  const lane = async () => {
+    while (next < items.length) {
+      if (shouldStop()) {
+        stopped = true
+        return
+      }
+      const index = next++
+      await worker(items[index], index)
+    }
+  }
+
+  const lanes = Math.max(1, Math.min(concurrency, items.length))
+  await Promise.all(Array.from({ length: lanes }, () => lane()))
+  return stopped
+}
+
+export interface RateLimiter {
+  /** Wait for a free request slot on `key` (sliding 60s window). */
+  acquire: (key: string, rpm: number, shouldStop: () => boolean) => Promise<void>
+  /** Milliseconds until `key` has a free slot, 0 if it has one now. */
+  waitTime: (key: string, rpm: number) => number
+}
+
+export function createRateLimiter(): RateLimiter {
+  const stamps = new Map<string, number[]>()
+
+  const recent = (key: string) => {
+    const cutoff = Date.now() - 60_000
+    const list = (stamps.get(key) || []).filter((t) => t > cutoff)
+    stamps.set(key, list)
+    return list
+  }
+
+  const waitTime = (key: string, rpm: number) => {
+    const list = recent(key)
+    if (rpm <= 0 || list.length < rpm) return 0
+    return list[list.length - rpm] + 60_000 - Date.now()
+  }
+
+  const acquire = async (key: string, rpm: number, shouldStop: () => boolean) => {
+    for (;;) {
+      if (shouldStop()) throw new GenerationStoppedError()
+      const wait = waitTime(key, rpm)
+      if (wait <= 0) {
+        recent(key).push(Date.now())
+        return
+      }
+      // short naps so Stop is noticed quickly
+      await sleep(Math.min(wait, 500))
+    }
+  }
+
+  return { acquire, waitTime }
+}
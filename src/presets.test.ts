@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { parsePresetsJson, sanitizeSettings } from './presets'
+
+describe('sanitizeSettings', () => {
+  it('keeps valid settings and drops unknown platforms, modes and keys', () => {
+    expect(
+      sanitizeSettings({
+        platform: 'pond5',
+        mode: 'video',
+        keywordPolicy: 'platform',
+        similarHandling: 'copy',
+        prefixText: 'Vector',
+        uniqueTitles: 'yes',
+        bulkKeywordText: null,
+        somethingNew: 1,
+      }),
+    ).toEqual({ keywordPolicy: 'platform', similarHandling: 'copy', prefixText: 'Vector' })
+  })
+
+  it('clamps numbers to the slider ranges and drops non-numeric ones', () => {
+    const raw = { keywordsCount: 500, concurrency: 0, titleLength: '80', requestsPerMinute: NaN }
+    expect(sanitizeSettings(raw)).toEqual({ keywordsCount: 50, concurrency: 1 })
+  })
+
+  it('fills partial flag defaults and needs every filler pool', () => {
+    expect(
+      sanitizeSettings({
+        flagDefaults: { editorial: true, mature: 'no', releases: 'MR.pdf' },
+        fillerPools: { photo: 'a, b' },
+      }),
+    ).toEqual({
+      flagDefaults: {
+        editorial: true,
+        mature: false,
+        illustration: false,
+        aiGenerated: false,
+        releases: 'MR.pdf',
+      },
+    })
+  })
+})
+
+describe('parsePresetsJson', () => {
+  it('sanitizes every imported preset', () => {
+    const presets = parsePresetsJson(
+      JSON.stringify({
+        type: 'csv-metadata-presets',
+        version: 1,
+        presets: [{ name: ' Adobe ', settings: { platform: 'adobe', mode: 42 }, savedAt: 5 }],
+      }),
+    )
+    expect(presets).toEqual([{ name: 'Adobe', settings: { platform: 'adobe' }, savedAt: 5 }])
+  })
+
+  it('rejects files without presets', () => {
+    expect(() => parsePresetsJson('not json')).toThrow('not valid JSON')
+    expect(() => parsePresetsJson('[{"name": "x"}]')).toThrow('No presets')
+  })
+})
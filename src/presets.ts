@@ -0,0 +1,171 @@
+import { PLATFORM_EXPORTERS } from './exporters'
+import { BooleanFlag, DEFAULT_FILE_FLAGS, FLAG_LABELS } from './flags'
+import { KEYWORD_POLICY_LABELS, MEDIA_KIND_LABELS, PADDING_MODE_LABELS } from './keywords'
+import type { SessionSettings } from './session'
+import { SIMILAR_HANDLING_LABELS } from './similarity'
+import type { FileFlags, MediaKind } from './types'
+
+/** ----- Named settings presets (localStorage + JSON files to share) ----- */
+
+export interface SettingsPreset {
+  name: string
+  // may lack fields added after the preset was saved; applied over the current settings
+  settings: Partial<SessionSettings>
+  savedAt: number
+}
+
+interface PresetFile {
+  type: 'csv-metadata-presets'
+  version: 1
+  presets: SettingsPreset[]
+}
+
+const STORAGE_KEY = 'csv_tool_presets'
+
+type SettingsKey = keyof SessionSettings
+
+// allowed values per enum setting
+const ENUM_SETTINGS: Partial<Record<SettingsKey, readonly string[]>> = {
+  mode: ['metadata', 'prompt'],
+  platform: Object.keys(PLATFORM_EXPORTERS),
+  keywordPolicy: [...Object.keys(KEYWORD_POLICY_LABELS), 'platform'],
+  importedHandling: ['skip', 'hint'],
+  paddingMode: Object.keys(PADDING_MODE_LABELS),
+  similarHandling: Object.keys(SIMILAR_HANDLING_LABELS),
+}
+
+// [min, max] as on the settings sliders
+const NUMBER_SETTINGS: Partial<Record<SettingsKey, [number, number]>> = {
+  titleLength: [10, 120],
+  keywordsCount: [5, 50],
+  descriptionLength: [50, 200],
+  concurrency: [1, 10],
+  requestsPerMinute: [1, 60],
+}
+
+const BOOLEAN_SETTINGS: SettingsKey[] = [
+  'autoRemoveDupKeywords',
+  'normalizeKeywords',
+  'bulkKeywordEnabled',
+  'prefixEnabled',
+  'suffixEnabled',
+  'suggestReleases',
+  'uniqueTitles',
+]
+
+const STRING_SETTINGS: SettingsKey[] = ['bulkKeywordText', 'prefixText', 'suffixText']
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function sanitizeFlags(value: unknown): FileFlags | undefined {
+  if (!isObject(value)) return undefined
+  const flags = { ...DEFAULT_FILE_FLAGS }
+  const booleanFlags = Object.keys(FLAG_LABELS) as BooleanFlag[]
+  booleanFlags.forEach((key) => {
+    if (typeof value[key] === 'boolean') flags[key] = value[key] as boolean
+  })
+  if (typeof value.releases === 'string') flags.releases = value.releases
+  return flags
+}
+
+// all three pools or none: a partial record would leave a media kind without a pool
+function sanitizeFillerPools(value: unknown): Record<MediaKind, string> | undefined {
+  if (!isObject(value)) return undefined
+  const kinds = Object.keys(MEDIA_KIND_LABELS) as MediaKind[]
+  if (!kinds.every((kind) => typeof value[kind] === 'string')) return undefined
+  return Object.fromEntries(kinds.map((kind) => [kind, value[kind]])) as Record<MediaKind, string>
+}
+
+/**
+ * Only known settings with a valid value: enums in their union, numbers clamped to the
+ * slider range, booleans and strings of the right type. Everything else is dropped, so
+ * a hand-edited or newer preset can't put a value into state the app doesn't handle.
+ */
+export function sanitizeSettings(value: unknown): Partial<SessionSettings> {
+  if (!isObject(value)) return {}
+  const settings: Record<string, unknown> = {}
+
+  Object.entries(ENUM_SETTINGS).forEach(([key, allowed]) => {
+    if (allowed!.includes(value[key] as string)) settings[key] = value[key]
+  })
+  Object.entries(NUMBER_SETTINGS).forEach(([key, [min, max]]) => {
+    const n = value[key]
+    if (typeof n === 'number' && Number.isFinite(n)) {
+      settings[key] = Math.min(max, Math.max(min, Math.round(n)))
+    }
+  })
+  BOOLEAN_SETTINGS.forEach((key) => {
+    if (typeof value[key] === 'boolean') settings[key] = value[key]
+  })
+  STRING_SETTINGS.forEach((key) => {
+    if (typeof value[key] === 'string') settings[key] = value[key]
+  })
+  const flagDefaults = sanitizeFlags(value.flagDefaults)
+  if (flagDefaults) settings.flagDefaults = flagDefaults
+  const fillerPools = sanitizeFillerPools(value.fillerPools)
+  if (fillerPools) settings.fillerPools = fillerPools
+
+  return settings as Partial<SessionSettings>
+}
+
+function isPreset(value: any): value is SettingsPreset {
+  return (
+    !!value &&
+    typeof value.name === 'string' &&
+    value.name.trim() !== '' &&
+    !!value.settings &&
+    typeof value.settings === 'object' &&
+    !Array.isArray(value.settings)
+  )
+}
+
+export function loadPresets(): SettingsPreset[] {
+  const stored = localStorage.getItem(STORAGE_KEY)
+  if (!stored) return []
+  try {
+    const parsed = JSON.parse(stored)
+    return Array.isArray(parsed)
+      ? parsed.filter(isPreset).map((p) => ({ ...p, settings: sanitizeSettings(p.settings) }))
+      : []
+  } catch {
+    return []
+  }
+}
+
+export function savePresets(presets: SettingsPreset[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+}
+
+/** Same name → replaced in place, new name → appended. */
+export function upsertPreset(presets: SettingsPreset[], preset: SettingsPreset): SettingsPreset[] {
+  const index = presets.findIndex((p) => p.name === preset.name)
+  if (index === -1) return [...presets, preset]
+  return presets.map((p, i) => (i === index ? preset : p))
+}
+
+export function presetsToJson(presets: SettingsPreset[]): string {
+  const file: PresetFile = { type: 'csv-metadata-presets', version: 1, presets }
+  return JSON.stringify(file, null, 2)
+}
+
+/** Presets from an exported file; a bare array or a single preset object is accepted too. */
+export function parsePresetsJson(text: string): SettingsPreset[] {
+  let parsed: any
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON.')
+  }
+
+  const list = Array.isArray(parsed) ? parsed : parsed && parsed.presets ? parsed.presets : [parsed]
+  if (!Array.isArray(list)) throw new Error('No presets found in the file.')
+  const presets = list.filter(isPreset).map((p: SettingsPreset) => ({
+    name: p.name.trim(),
+    settings: sanitizeSettings(p.settings),
+    savedAt: typeof p.savedAt === 'number' ? p.savedAt : Date.now(),
+  }))
+  if (!presets.length) throw new Error('No presets found in the file.')
+  return presets
+}
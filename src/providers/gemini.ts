@@ -0,0 +1,70 @@
+import { ApiError, GenerationError } from '../errors'
+import type { ModelProvider } from './types'
+
+export const GEMINI_MODELS = [
+  'gemini-2.0-flash',
+  'gemini-2.0-flash-lite',
+  'gemini-2.5-flash',
+  'gemini-2.5-pro',
+  'gemini-1.5-flash',
+]
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  needsKey: true,
+  defaultConfig: { model: 'gemini-2.0-flash', baseUrl: '' },
+
+  async generate(parts, apiKey, config) {
+    const apiUrl =
+      `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(
+        config.model || 'gemini-2.0-flash',
+      )}:generateContent?key=` + encodeURIComponent(apiKey)
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [
+          {
+            role: 'user',
+            parts: parts.map((p) =>
+              p.kind === 'image'
+                ? { inline_data: { mime_type: p.mimeType, data: p.data } }
+                : { text: p.text },
+            ),
+          },
+        ],
+        generationConfig: {
+          responseMimeType: 'application/json',
+        },
+      }),
+    })
+
+    if (!response.ok) {
+      const text = await response.text()
+      throw new ApiError(`Gemini error (${response.status}): ${text}`, response.status, text)
+    }
+
+    const data = await response.json()
+
+    const blockReason = data?.promptFeedback?.blockReason
+    const finishReason = data?.candidates?.[0]?.finishReason
+    if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+      throw new GenerationError('safety', `Blocked by Gemini (${blockReason || finishReason})`)
+    }
+
+    const resultParts = data?.candidates?.[0]?.content?.parts
+    const rawText = Array.isArray(resultParts)
+      ? resultParts
+          .map((p: any) => (typeof p.text === 'string' ? p.text : ''))
+          .join(' ')
+          .trim()
+      : ''
+
+    if (!rawText) {
+      throw new GenerationError('parse', 'Empty response from Gemini')
+    }
+    return rawText
+  },
+}
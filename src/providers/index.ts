@@ -0,0 +1,19 @@
+import { geminiProvider } from './gemini'
+import { mockProvider } from './mock'
+import { ollamaProvider } from './ollama'
+import { openAiProvider } from './openai'
+import type { ModelProvider, ProviderId } from './types'
+
+export { GEMINI_MODELS } from './gemini'
+export { parseModelJson } from './json'
+export type { ModelProvider, ProviderConfig, ProviderId, RequestPart } from './types'
+
+export const PROVIDERS: Record<ProviderId, ModelProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  ollama: ollamaProvider,
+  mock: mockProvider,
+}
+
+// providers without keys still go through the key manager / rate limiter under this name
+export const LOCAL_KEY = 'local'
@@ -0,0 +1,20 @@
+import { GenerationError } from '../errors'
+
+// model reply → JSON object (tolerates ```json fences and text around the braces)
+export function parseModelJson(rawText: string): any {
+  let jsonText = rawText.trim()
+  jsonText = jsonText.replace(/```json/gi, '').replace(/```/g, '').trim()
+  const firstBrace = jsonText.indexOf('{')
+  const lastBrace = jsonText.lastIndexOf('}')
+  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
+    jsonText = jsonText.slice(firstBrace, lastBrace + 1)
+  }
+
+  try {
+    return JSON.parse(jsonText)
+  } catch (e) {
+    console.error('Model rawText:', rawText)
+    console.error('Model jsonText:', jsonText)
+    throw new GenerationError('parse', 'Failed to parse JSON from model response')
+  }
+}
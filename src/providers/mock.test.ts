@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { buildKeywords, countKeywords, normalizeTitle } from '../keywords'
+import { runPool } from '../pool'
+import type { FileItem } from '../types'
+import { applyGenerated } from '../versions'
+import { LOCAL_KEY, parseModelJson, PROVIDERS } from '.'
+
+function item(name: string): FileItem {
+  return {
+    id: name,
+    file: new File([''], name),
+    title: '',
+    keywords: '',
+    description: '',
+    prompt: '',
+    shortPrompt: '',
+    negativePrompt: '',
+    status: 'pending',
+  }
+}
+
+describe('mock provider', () => {
+  it('runs generation offline through the provider interface', async () => {
+    const provider = PROVIDERS.mock
+    expect(provider.needsKey).toBe(false)
+
+    let files = [item('red-apple.jpg'), item('mountain_lake.png')]
+    await runPool(
+      files,
+      2,
+      async (f) => {
+        const text = `File name: ${f.file.name}\nKeywords: EXACTLY 12 single words`
+        const raw = await provider.generate(
+          [{ kind: 'image', mimeType: 'image/png', data: '' }, { kind: 'text', text }],
+          LOCAL_KEY,
+          provider.defaultConfig,
+        )
+        const parsed = parseModelJson(raw)
+        const { keywords } = buildKeywords(parsed.keywords.join(', '), '', true, 12)
+        const partial = { title: normalizeTitle(parsed.title), keywords, status: 'success' as const }
+        files = files.map((g) => (g.id === f.id ? applyGenerated(g, partial) : g))
+      },
+      () => false,
+    )
+
+    const [apple, lake] = files
+    expect(apple.status).toBe('success')
+    expect(apple.title.toLowerCase()).toContain('red apple')
+    expect(apple.keywords.split(', ').slice(0, 2)).toEqual(['red', 'apple'])
+    expect(countKeywords(apple.keywords)).toBe(12)
+    expect(lake.title.toLowerCase()).toContain('mountain lake')
+    expect(apple.versions!.map((v) => v.source)).toEqual(['generated'])
+  })
+
+  it('answers the same file the same way', async () => {
+    const parts = [{ kind: 'text' as const, text: 'File name: logo.svg\nEXACTLY 8' }]
+    const config = PROVIDERS.mock.defaultConfig
+    const first = await PROVIDERS.mock.generate(parts, LOCAL_KEY, config)
+    expect(await PROVIDERS.mock.generate(parts, LOCAL_KEY, config)).toBe(first)
+  })
+})
@@ -0,0 +1,74 @@
+import type { ModelProvider } from './types'
+
+const VOCABULARY = [
+  'abstract',
+  'background',
+  'bright',
+  'colorful',
+  'concept',
+  'creative',
+  'decoration',
+  'design',
+  'detail',
+  'element',
+  'graphic',
+  'modern',
+  'natural',
+  'simple',
+  'style',
+  'texture',
+]
+
+// FNV-1a, so the same file always gets the same answer
+function hash(text: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/** Offline provider with deterministic answers built from the file name. For testing the pipeline. */
+export const mockProvider: ModelProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  needsKey: false,
+  defaultConfig: { model: 'mock', baseUrl: '' },
+
+  async generate(parts) {
+    const text = parts.flatMap((p) => (p.kind === 'text' ? [p.text] : [])).join('\n')
+    const fileName = (text.match(/File name:\s*(.+)/) || [])[1] || 'file'
+    const count = Number((text.match(/EXACTLY (\d+)/) || [])[1] || 25)
+    const nameWords = fileName
+      .replace(/\.[^.]+$/, '')
+      .split(/[^a-zA-Z]+/)
+      .map((w) => w.toLowerCase())
+      .filter((w) => w.length > 2)
+    const subject = nameWords.join(' ') || 'subject'
+
+    const seed = hash(fileName)
+    const words = [...nameWords]
+    for (let i = 0; words.length < count && i < VOCABULARY.length; i++) {
+      const word = VOCABULARY[(seed + i * 7) % VOCABULARY.length]
+      if (!words.includes(word)) words.push(word)
+    }
+    const imageCount = parts.filter((p) => p.kind === 'image').length
+
+    await new Promise((resolve) => setTimeout(resolve, 150))
+
+    if (text.includes('"short_prompt"')) {
+      return JSON.stringify({
+        prompt: `${subject}, ${words.slice(0, 8).join(', ')}, high detail, studio lighting`,
+        short_prompt: `${subject}, ${words[1] || 'modern'} style`,
+        negative_prompt: 'blurry, watermark, text, low quality',
+      })
+    }
+
+    return JSON.stringify({
+      title: `${subject} ${words[nameWords.length] || 'design'} illustration`,
+      keywords: words.slice(0, count),
+      description: `Mock description of ${subject} generated offline from ${imageCount} image input(s).`,
+    })
+  },
+}
@@ -0,0 +1,45 @@
+import { ApiError, GenerationError } from '../errors'
+import type { ModelProvider } from './types'
+
+// Local Ollama with a vision model (llava, llama3.2-vision, …). Needs OLLAMA_ORIGINS to allow the page.
+export const ollamaProvider: ModelProvider = {
+  id: 'ollama',
+  label: 'Ollama (local)',
+  needsKey: false,
+  defaultConfig: { model: 'llava', baseUrl: 'http://localhost:11434' },
+
+  async generate(parts, _apiKey, config) {
+    const baseUrl = (config.baseUrl || this.defaultConfig.baseUrl).replace(/\/+$/, '')
+    const texts = parts.flatMap((p) => (p.kind === 'text' ? [p.text] : []))
+    const images = parts.flatMap((p) => (p.kind === 'image' ? [p.data] : []))
+
+    const response = await fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model || this.defaultConfig.model,
+        messages: [
+          {
+            role: 'user',
+            content: texts.join('\n\n'),
+            images,
+          },
+        ],
+        format: 'json',
+        stream: false,
+      }),
+    })
+
+    if (!response.ok) {
+      const text = await response.text()
+      throw new ApiError(`Ollama error (${response.status}): ${text}`, response.status, text)
+    }
+
+    const data = await response.json()
+    const rawText = typeof data?.message?.content === 'string' ? data.message.content.trim() : ''
+    if (!rawText) {
+      throw new GenerationError('parse', 'Empty response from Ollama')
+    }
+    return rawText
+  },
+}
@@ -0,0 +1,54 @@
+import { ApiError, GenerationError } from '../errors'
+import type { ModelProvider } from './types'
+
+// Any /chat/completions endpoint that accepts image_url parts (OpenAI, OpenRouter, LM Studio, vLLM …)
+export const openAiProvider: ModelProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  needsKey: true,
+  defaultConfig: { model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1' },
+
+  async generate(parts, apiKey, config) {
+    const baseUrl = (config.baseUrl || this.defaultConfig.baseUrl).replace(/\/+$/, '')
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: config.model || this.defaultConfig.model,
+        messages: [
+          {
+            role: 'user',
+            content: parts.map((p) =>
+              p.kind === 'image'
+                ? { type: 'image_url', image_url: { url: `data:${p.mimeType};base64,${p.data}` } }
+                : { type: 'text', text: p.text },
+            ),
+          },
+        ],
+        response_format: { type: 'json_object' },
+      }),
+    })
+
+    if (!response.ok) {
+      const text = await response.text()
+      throw new ApiError(`OpenAI-compatible error (${response.status}): ${text}`, response.status, text)
+    }
+
+    const data = await response.json()
+    const choice = data?.choices?.[0]
+
+    if (choice?.finish_reason === 'content_filter') {
+      throw new GenerationError('safety', 'Blocked by content filter')
+    }
+
+    const rawText = typeof choice?.message?.content === 'string' ? choice.message.content.trim() : ''
+    if (!rawText) {
+      throw new GenerationError('parse', 'Empty response from model')
+    }
+    return rawText
+  },
+}
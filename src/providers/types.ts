@@ -0,0 +1,26 @@
+/** ----- Model provider interface ----- */
+
+export type ProviderId = 'gemini' | 'openai' | 'ollama' | 'mock'
+
+export type RequestPart =
+  | { kind: 'image'; mimeType: string; data: string }
+  | { kind: 'text'; text: string }
+
+export interface ProviderConfig {
+  model: string
+  // OpenAI-compatible and Ollama only
+  baseUrl: string
+}
+
+export interface ModelProvider {
+  id: ProviderId
+  label: string
+  // false → runs without API keys (local / offline)
+  needsKey: boolean
+  defaultConfig: ProviderConfig
+  /**
+   * Send images + text, return the model's raw text answer (expected to be JSON).
+   * Throws ApiError on HTTP failures and GenerationError for blocked/empty answers.
+   */
+  generate: (parts: RequestPart[], apiKey: string, config: ProviderConfig) => Promise<string>
+}
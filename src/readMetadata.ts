@@ -0,0 +1,223 @@
+import { splitKeywords } from './embedMetadata'
+
+/** ----- Read metadata already embedded in uploaded images ----- */
+
+export interface ExistingMetadata {
+  title: string
+  keywords: string[]
+  description: string
+  // which blocks had data, e.g. ['XMP', 'IPTC']
+  sources: string[]
+}
+
+const DC_NS = 'http://purl.org/dc/elements/1.1/'
+const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#'
+
+const utf8 = new TextDecoder('utf-8')
+const latin1 = new TextDecoder('latin1')
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length))
+}
+
+/** dc:title / dc:description / dc:subject from an XMP packet or SVG <metadata> RDF. */
+export function parseXmp(xml: string): Partial<ExistingMetadata> {
+  const start = xml.search(/<(x:xmpmeta|rdf:RDF)\b/)
+  if (start === -1) return {}
+  const closeTag = xml.includes('</x:xmpmeta>') ? '</x:xmpmeta>' : '</rdf:RDF>'
+  const end = xml.indexOf(closeTag, start)
+  if (end === -1) return {}
+
+  const doc = new DOMParser().parseFromString(
+    xml.slice(start, end + closeTag.length),
+    'application/xml',
+  )
+  if (doc.getElementsByTagName('parsererror').length) return {}
+
+  const items = (name: string) => {
+    const el = doc.getElementsByTagNameNS(DC_NS, name)[0]
+    if (!el) return []
+    const lis = Array.from(el.getElementsByTagNameNS(RDF_NS, 'li'))
+    return (lis.length ? lis : [el]).map((li) => (li.textContent || '').trim()).filter(Boolean)
+  }
+
+  return {
+    title: items('title')[0] || '',
+    description: items('description')[0] || '',
+    keywords: items('subject'),
+  }
+}
+
+/** IPTC IIM datasets 2:05 ObjectName, 2:25 Keywords, 2:120 Caption from an 8BIM 0x0404 resource. */
+export function parseIptc(bytes: Uint8Array): Partial<ExistingMetadata> {
+  let pos = 0
+  let iim: Uint8Array | null = null
+
+  while (pos + 12 <= bytes.length) {
+    if (ascii(bytes, pos, 4) !== '8BIM') break
+    const id = (bytes[pos + 4] << 8) | bytes[pos + 5]
+    const nameLength = bytes[pos + 6]
+    let p = pos + 7 + nameLength
+    if ((nameLength + 1) % 2) p++
+    const size = ((bytes[p] << 24) | (bytes[p + 1] << 16) | (bytes[p + 2] << 8) | bytes[p + 3]) >>> 0
+    const dataStart = p + 4
+    if (id === 0x0404) {
+      iim = bytes.subarray(dataStart, dataStart + size)
+      break
+    }
+    pos = dataStart + size + (size % 2)
+  }
+  if (!iim) return {}
+
+  let decoder = latin1
+  const result: Partial<ExistingMetadata> = { keywords: [] }
+  pos = 0
+  while (pos + 5 <= iim.length && iim[pos] === 0x1c) {
+    const record = iim[pos + 1]
+    const dataset = iim[pos + 2]
+    const length = (iim[pos + 3] << 8) | iim[pos + 4]
+    const value = iim.subarray(pos + 5, pos + 5 + length)
+    pos += 5 + length
+
+    // 1:90 ESC % G → UTF-8
+    if (record === 1 && dataset === 90 && value[0] === 0x1b && value[1] === 0x25 && value[2] === 0x47) {
+      decoder = utf8
+    }
+    if (record !== 2) continue
+    const text = decoder.decode(value).trim()
+    if (dataset === 5) result.title = text
+    if (dataset === 25 && text) result.keywords!.push(text)
+    if (dataset === 120) result.description = text
+  }
+  return result
+}
+
+/** EXIF IFD0 ImageDescription (0x010E). */
+export function parseExifDescription(tiff: Uint8Array): string {
+  if (tiff.length < 8) return ''
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength)
+  const le = view.getUint16(0) === 0x4949
+  const ifd = view.getUint32(4, le)
+  if (ifd + 2 > tiff.length) return ''
+  const count = view.getUint16(ifd, le)
+
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12
+    if (entry + 12 > tiff.length) break
+    if (view.getUint16(entry, le) !== 0x010e) continue
+    const length = view.getUint32(entry + 4, le)
+    const offset = length > 4 ? view.getUint32(entry + 8, le) : entry + 8
+    return utf8
+      .decode(tiff.subarray(offset, offset + length))
+      .replace(/\0+$/, '')
+      .trim()
+  }
+  return ''
+}
+
+function readJpeg(bytes: Uint8Array): ExistingMetadata[] {
+  const found: ExistingMetadata[] = []
+  let pos = 2
+
+  while (pos + 4 <= bytes.length && bytes[pos] === 0xff) {
+    const marker = bytes[pos + 1]
+    if (marker === 0xda) break
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3]
+    const payload = bytes.subarray(pos + 4, pos + 2 + length)
+    pos += 2 + length
+
+    if (marker === 0xe1 && ascii(payload, 0, 29) === 'http://ns.adobe.com/xap/1.0/\0') {
+      found.push({ ...empty('XMP'), ...parseXmp(utf8.decode(payload.subarray(29))) })
+    } else if (marker === 0xe1 && ascii(payload, 0, 6) === 'Exif\0\0') {
+      found.push({ ...empty('EXIF'), description: parseExifDescription(payload.subarray(6)) })
+    } else if (marker === 0xed && ascii(payload, 0, 14) === 'Photoshop 3.0\0') {
+      found.push({ ...empty('IPTC'), ...parseIptc(payload.subarray(14)) })
+    }
+  }
+  return found
+}
+
+function readPng(bytes: Uint8Array): ExistingMetadata[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const text: ExistingMetadata = empty('PNG text')
+  const found: ExistingMetadata[] = []
+  let pos = 8
+
+  while (pos + 12 <= bytes.length) {
+    const length = view.getUint32(pos)
+    const type = ascii(bytes, pos + 4, 4)
+    const data = bytes.subarray(pos + 8, pos + 8 + length)
+    pos += 12 + length
+    if (type === 'IDAT' || type === 'IEND') break
+    if (type !== 'iTXt' && type !== 'tEXt') continue
+
+    const nul = data.indexOf(0)
+    if (nul === -1) continue
+    const keyword = ascii(data, 0, nul)
+    let value: string
+    if (type === 'tEXt') {
+      value = latin1.decode(data.subarray(nul + 1))
+    } else {
+      // skip compressed iTXt; otherwise flag, method, language\0, translated keyword\0
+      if (data[nul + 1] !== 0) continue
+      let p = nul + 3
+      p = data.indexOf(0, p) + 1
+      p = data.indexOf(0, p) + 1
+      value = utf8.decode(data.subarray(p))
+    }
+
+    if (keyword === 'XML:com.adobe.xmp') found.push({ ...empty('XMP'), ...parseXmp(value) })
+    if (keyword === 'Title') text.title = value.trim()
+    if (keyword === 'Description') text.description = value.trim()
+    if (keyword === 'Keywords') text.keywords = splitKeywords(value)
+  }
+  return [...found, text]
+}
+
+function empty(source: string): ExistingMetadata {
+  return { title: '', keywords: [], description: '', sources: [source] }
+}
+
+/**
+ * Title / keywords / description already in a JPEG, PNG or SVG. Per field the
+ * first block with a value wins: XMP, then IPTC, then EXIF/PNG text.
+ * Returns null when the file carries none of them.
+ */
+export async function readExistingMetadata(file: File): Promise<ExistingMetadata | null> {
+  let blocks: ExistingMetadata[] = []
+
+  if (file.type === 'image/svg+xml' || /\.svg$/i.test(file.name)) {
+    blocks = [{ ...empty('SVG metadata'), ...parseXmp(await file.text()) }]
+  } else if (file.type === 'image/jpeg' || /\.jpe?g$/i.test(file.name)) {
+    // metadata segments sit before the image data; 512KB covers them in practice
+    blocks = readJpeg(new Uint8Array(await file.slice(0, 512 * 1024).arrayBuffer()))
+  } else if (file.type === 'image/png' || /\.png$/i.test(file.name)) {
+    blocks = readPng(new Uint8Array(await file.slice(0, 1024 * 1024).arrayBuffer()))
+  } else {
+    return null
+  }
+
+  const order = ['XMP', 'SVG metadata', 'IPTC', 'EXIF', 'PNG text']
+  blocks.sort((a, b) => order.indexOf(a.sources[0]) - order.indexOf(b.sources[0]))
+
+  const result = empty('')
+  result.sources = []
+  blocks.forEach((block) => {
+    let used = false
+    if (!result.title && block.title) {
+      result.title = block.title
+      used = true
+    }
+    if (!result.description && block.description) {
+      result.description = block.description
+      used = true
+    }
+    if (!result.keywords.length && block.keywords.length) {
+      result.keywords = block.keywords
+      used = true
+    }
+    if (used) result.sources.push(block.sources[0])
+  })
+
+  return result.sources.length ? result : null
+}
@@ -0,0 +1,198 @@
+import type {
+  FileFlags,
+  FileItem,
+  ImportedHandling,
+  KeywordPolicy,
+  MediaKind,
+  Mode,
+  PaddingMode,
+  Platform,
+  SimilarHandling,
+} from './types'
+
+/** ----- Working session persisted in IndexedDB ----- */
+
+export interface SessionSettings {
+  mode: Mode
+  platform: Platform
+  titleLength: number
+  keywordsCount: number
+  descriptionLength: number
+  autoRemoveDupKeywords: boolean
+  // 'platform' → the selected platform's default
+  keywordPolicy: KeywordPolicy | 'platform'
+  // fold plurals, US/UK spellings and synonym groups when deduplicating
+  normalizeKeywords: boolean
+  bulkKeywordEnabled: boolean
+  bulkKeywordText: string
+  prefixEnabled: boolean
+  suffixEnabled: boolean
+  prefixText: string
+  suffixText: string
+  concurrency: number
+  requestsPerMinute: number
+  importedHandling: ImportedHandling
+  paddingMode: PaddingMode
+  // comma separated word pool per media kind, as typed
+  fillerPools: Record<MediaKind, string>
+  flagDefaults: FileFlags
+  suggestReleases: boolean
+  similarHandling: SimilarHandling
+  // re-request titles that collide with another file's after generation
+  uniqueTitles: boolean
+}
+
+export interface SessionSnapshot {
+  files: FileItem[]
+  settings: SessionSettings
+  history: string[]
+  savedAt: number
+}
+
+// FileItem without the parts that can't or shouldn't be stored per edit
+type StoredItem = Omit<FileItem, 'file' | 'companion' | 'previewUrl'> & { order: number }
+
+interface StoredBlobs {
+  id: string
+  file: File
+  companion?: File
+}
+
+interface StoredMeta {
+  settings: SessionSettings
+  history: string[]
+  savedAt: number
+}
+
+const DB_NAME = 'csv_metadata_tool'
+const DB_VERSION = 1
+const META_KEY = 'session'
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains('items')) db.createObjectStore('items', { keyPath: 'id' })
+      if (!db.objectStoreNames.contains('blobs')) db.createObjectStore('blobs', { keyPath: 'id' })
+      if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error || new Error('Failed to open IndexedDB'))
+  })
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'))
+  })
+}
+
+function toStoredItem(item: FileItem, order: number): StoredItem {
+  const { file: _file, companion: _companion, previewUrl: _previewUrl, ...rest } = item
+  return { ...rest, order }
+}
+
+/**
+ * Write the whole session. File blobs are written once per item id (tracked in
+ * `storedBlobIds`); item fields, settings and history are rewritten every save.
+ */
+export async function saveSession(
+  files: FileItem[],
+  settings: SessionSettings,
+  history: string[],
+  storedBlobIds: Set<string>,
+): Promise<void> {
+  const db = await openDb()
+  try {
+    const tx = db.transaction(['items', 'blobs', 'meta'], 'readwrite')
+    const items = tx.objectStore('items')
+    const blobs = tx.objectStore('blobs')
+
+    const currentIds = new Set(files.map((f) => f.id))
+    const storedIds = (await requestToPromise(items.getAllKeys())) as string[]
+    storedIds
+      .filter((id) => !currentIds.has(id))
+      .forEach((id) => {
+        items.delete(id)
+        blobs.delete(id)
+        storedBlobIds.delete(id)
+        Array.from(storedBlobIds)
+          .filter((key) => key.startsWith(`${id}#`))
+          .forEach((key) => storedBlobIds.delete(key))
+      })
+
+    files.forEach((f, order) => {
+      items.put(toStoredItem(f, order))
+      // companion can show up after upload (pairing, embedded preview)
+      const companionKey = `${f.id}#${f.companion ? f.companion.name : ''}`
+      if (!storedBlobIds.has(f.id) || (f.companion && !storedBlobIds.has(companionKey))) {
+        const record: StoredBlobs = { id: f.id, file: f.file, companion: f.companion }
+        blobs.put(record)
+        storedBlobIds.add(f.id)
+        if (f.companion) storedBlobIds.add(companionKey)
+      }
+    })
+
+    const meta: StoredMeta = { settings, history: history.slice(0, 500), savedAt: Date.now() }
+    tx.objectStore('meta').put(meta, META_KEY)
+
+    await transactionDone(tx)
+  } finally {
+    db.close()
+  }
+}
+
+/** Stored session, or null when there is nothing to restore. Items that were generating come back pending. */
+export async function loadSession(): Promise<SessionSnapshot | null> {
+  const db = await openDb()
+  try {
+    const tx = db.transaction(['items', 'blobs', 'meta'], 'readonly')
+    const [items, blobs, meta] = await Promise.all([
+      requestToPromise(tx.objectStore('items').getAll()) as Promise<StoredItem[]>,
+      requestToPromise(tx.objectStore('blobs').getAll()) as Promise<StoredBlobs[]>,
+      requestToPromise(tx.objectStore('meta').get(META_KEY)) as Promise<StoredMeta | undefined>,
+    ])
+    if (!meta || !items.length) return null
+
+    const blobById = new Map(blobs.map((b) => [b.id, b]))
+    const files: FileItem[] = items
+      .sort((a, b) => a.order - b.order)
+      .filter((item) => blobById.has(item.id))
+      .map(({ order: _order, ...item }) => {
+        const stored = blobById.get(item.id) as StoredBlobs
+        return {
+          ...item,
+          file: stored.file,
+          companion: stored.companion,
+          status: item.status === 'generating' ? 'pending' : item.status,
+        }
+      })
+
+    return { files, settings: meta.settings, history: meta.history, savedAt: meta.savedAt }
+  } finally {
+    db.close()
+  }
+}
+
+export async function clearSession(): Promise<void> {
+  const db = await openDb()
+  try {
+    const tx = db.transaction(['items', 'blobs', 'meta'], 'readwrite')
+    tx.objectStore('items').clear()
+    tx.objectStore('blobs').clear()
+    tx.objectStore('meta').clear()
+    await transactionDone(tx)
+  } finally {
+    db.close()
+  }
+}
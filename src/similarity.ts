@@ -0,0 +1,121 @@
+import type { FileItem, SimilarHandling } from './types'
+
+/** ----- Perceptual hashing and near-duplicate groups ----- */
+
+export const SIMILAR_HANDLING_LABELS: Record<SimilarHandling, string> = {
+  separate: 'Generate each file separately',
+  copy: 'Generate once, copy to the group',
+  differentiate: 'Generate each with distinct titles',
+}
+
+// dHash bits that may differ for two images to count as the same design (of 64)
+const SIMILAR_THRESHOLD = 10
+
+function loadImage(blob: Blob): Promise<{ image: HTMLImageElement; url: string }> {
+  const url = URL.createObjectURL(blob)
+  const image = new Image()
+  return new Promise((resolve, reject) => {
+    image.onload = () => resolve({ image, url })
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('Failed to decode image for hashing'))
+    }
+    image.src = url
+  })
+}
+
+/**
+ * 64-bit difference hash as 16 hex chars, from a 9x8 RGBA sample of the image:
+ * each bit says whether a pixel is brighter than its right neighbour. Survives
+ * rescaling, recompression, recoloring that keeps light/dark order, and small crops.
+ * Also used by the thumbnail worker.
+ */
+export function dHashFromPixels(data: Uint8ClampedArray): string {
+  const gray = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114
+  }
+
+  let hex = ''
+  for (let y = 0; y < 8; y++) {
+    let byte = 0
+    for (let x = 0; x < 8; x++) {
+      byte = (byte << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0)
+    }
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  return hex
+}
+
+/** dHash on the main thread, for images the worker can't decode (SVG). */
+export async function computeDHash(blob: Blob): Promise<string | null> {
+  const { image, url } = await loadImage(blob)
+  try {
+    const canvas = document.createElement('canvas')
+    canvas.width = 9
+    canvas.height = 8
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })
+    if (!ctx) return null
+    // transparent SVG/PNG areas count as white
+    ctx.fillStyle = '#fff'
+    ctx.fillRect(0, 0, 9, 8)
+    ctx.drawImage(image, 0, 0, 9, 8)
+    return dHashFromPixels(ctx.getImageData(0, 0, 9, 8).data)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+function popcount(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555)
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333)
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < 16; i += 8) {
+    distance += popcount((parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0)
+  }
+  return distance
+}
+
+/**
+ * Items with `similarGroup` set to the id of their group's first member; files with
+ * no near-duplicate (or excluded by the user) get none. Groups are transitive.
+ */
+export function groupSimilar(items: FileItem[]): FileItem[] {
+  const hashed = items.filter((f) => f.phash && !f.groupExcluded)
+  const order = new Map(hashed.map((f, i) => [f.id, i]))
+  const parent = new Map<string, string>(hashed.map((f) => [f.id, f.id]))
+  const find = (id: string): string => {
+    let root = id
+    while (parent.get(root) !== root) root = parent.get(root)!
+    parent.set(id, root)
+    return root
+  }
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (hammingDistance(hashed[i].phash!, hashed[j].phash!) > SIMILAR_THRESHOLD) continue
+      const a = find(hashed[i].id)
+      const b = find(hashed[j].id)
+      // the earlier file in the list names the group
+      if (a !== b) {
+        if (order.get(a)! < order.get(b)!) parent.set(b, a)
+        else parent.set(a, b)
+      }
+    }
+  }
+
+  const sizes = new Map<string, number>()
+  hashed.forEach((f) => {
+    const root = find(f.id)
+    sizes.set(root, (sizes.get(root) || 0) + 1)
+  })
+
+  return items.map((f) => {
+    const group = parent.has(f.id) && sizes.get(find(f.id))! > 1 ? find(f.id) : undefined
+    return f.similarGroup === group ? f : { ...f, similarGroup: group }
+  })
+}
@@ -0,0 +1,59 @@
+import { computeDHash } from './similarity'
+import type { PreviewRequest, PreviewResponse } from './thumbnails.worker'
+
+/** ----- Row thumbnails and perceptual hashes, made off the main thread ----- */
+
+// 2x the 70px preview box
+export const THUMBNAIL_SIZE = 160
+
+export interface PreviewResult {
+  // null → show the original (SVG, or the browser can't do this in a worker)
+  thumb: Blob | null
+  hash: string | null
+}
+
+let worker: Worker | null | undefined
+let nextId = 0
+const waiting = new Map<number, (result: PreviewResult) => void>()
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    worker = null
+    return worker
+  }
+  try {
+    worker = new Worker(new URL('./thumbnails.worker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (e: MessageEvent<PreviewResponse>) => {
+      const { id, thumb, hash } = e.data
+      waiting.get(id)?.({ thumb, hash })
+      waiting.delete(id)
+    }
+    worker.onerror = (e) => {
+      console.error('Thumbnail worker failed', e)
+      worker = null
+      waiting.forEach((resolve) => resolve({ thumb: null, hash: null }))
+      waiting.clear()
+    }
+  } catch (err) {
+    console.error(err)
+    worker = null
+  }
+  return worker
+}
+
+/** Thumbnail + hash for one image. SVG (not decodable in workers) only gets a main-thread hash. */
+export async function makePreview(blob: Blob): Promise<PreviewResult> {
+  const target = blob.type === 'image/svg+xml' ? null : getWorker()
+  if (!target) {
+    const hash = await computeDHash(blob).catch(() => null)
+    return { thumb: null, hash }
+  }
+
+  return new Promise((resolve) => {
+    const id = nextId++
+    waiting.set(id, resolve)
+    const request: PreviewRequest = { id, blob, size: THUMBNAIL_SIZE }
+    target.postMessage(request)
+  })
+}
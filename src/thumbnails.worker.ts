@@ -0,0 +1,59 @@
+import { dHashFromPixels } from './similarity'
+
+/** ----- Worker: downscaled JPEG thumbnail + perceptual hash for one image ----- */
+
+export interface PreviewRequest {
+  id: number
+  blob: Blob
+  // longest side of the thumbnail, px
+  size: number
+}
+
+export interface PreviewResponse {
+  id: number
+  thumb: Blob | null
+  hash: string | null
+}
+
+// typed by hand: the project compiles against the DOM lib, not WebWorker
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<PreviewRequest>) => void) | null
+  postMessage: (message: PreviewResponse) => void
+}
+
+async function makePreview({ id, blob, size }: PreviewRequest): Promise<PreviewResponse> {
+  const bitmap = await createImageBitmap(blob)
+  try {
+    const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height))
+    const width = Math.max(1, Math.round(bitmap.width * scale))
+    const height = Math.max(1, Math.round(bitmap.height * scale))
+    const canvas = new OffscreenCanvas(width, height)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return { id, thumb: null, hash: null }
+    // transparent PNG areas → white, as in the main-thread hash
+    ctx.fillStyle = '#fff'
+    ctx.fillRect(0, 0, width, height)
+    ctx.drawImage(bitmap, 0, 0, width, height)
+    const thumb = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 })
+
+    const sample = new OffscreenCanvas(9, 8)
+    const sampleCtx = sample.getContext('2d', { willReadFrequently: true })
+    if (!sampleCtx) return { id, thumb, hash: null }
+    sampleCtx.drawImage(canvas, 0, 0, 9, 8)
+    return { id, thumb, hash: dHashFromPixels(sampleCtx.getImageData(0, 0, 9, 8).data) }
+  } finally {
+    bitmap.close()
+  }
+}
+
+// one image at a time: decoding many full-size originals at once would spike memory
+let queue = Promise.resolve()
+
+scope.onmessage = (e) => {
+  const request = e.data
+  queue = queue.then(() =>
+    makePreview(request)
+      .then((response) => scope.postMessage(response))
+      .catch(() => scope.postMessage({ id: request.id, thumb: null, hash: null })),
+  )
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { findTitleCollisions } from './titles'
+import type { FileItem } from './types'
+
+function item(id: string, title: string): FileItem {
+  return {
+    id,
+    file: new File([''], `${id}.jpg`),
+    title,
+    keywords: '',
+    description: '',
+    prompt: '',
+    shortPrompt: '',
+    negativePrompt: '',
+    status: 'success',
+  }
+}
+
+describe('findTitleCollisions', () => {
+  it('groups exact and near-identical titles', () => {
+    const collisions = findTitleCollisions([
+      item('a', 'Red sports car on a mountain road'),
+      item('b', 'Red sports cars on the mountain road'),
+      item('c', 'Blue boat at sunset'),
+      item('d', 'blue boat at  sunset'),
+    ])
+    expect(collisions).toEqual([
+      { ids: ['a', 'b'], exact: false },
+      { ids: ['c', 'd'], exact: true },
+    ])
+  })
+
+  it('compares non-Latin titles by their words', () => {
+    expect(
+      findTitleCollisions([
+        item('a', 'ঢাকার রাস্তায় রিকশা'),
+        item('b', 'সমুদ্র সৈকতে সূর্যাস্ত'),
+        item('c', '東京 夜景'),
+        item('d', '富士山 朝日'),
+      ]),
+    ).toEqual([])
+    expect(
+      findTitleCollisions([item('a', 'ঢাকার রাস্তায় রিকশা'), item('b', 'ঢাকার রাস্তায় রিকশা')]),
+    ).toEqual([{ ids: ['a', 'b'], exact: true }])
+  })
+
+  it('does not treat titles made only of stop words as near-identical', () => {
+    expect(findTitleCollisions([item('a', 'On the'), item('b', 'At a')])).toEqual([])
+  })
+})
@@ -0,0 +1,77 @@
+import { singularize } from './normalize'
+import type { FileItem } from './types'
+
+/** ----- Batch-wide title collisions ----- */
+
+// share of distinct words two titles may have in common before they count as near-identical
+const NEAR_DUPLICATE_SIMILARITY = 0.8
+
+// words that don't make a title different
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'on', 'in', 'with', 'for', 'at', 'to'])
+
+export interface TitleCollision {
+  // ids in list order; the first one keeps its title when fixing
+  ids: string[]
+  // every title in the cluster is the same string
+  exact: boolean
+}
+
+function titleTokens(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^\p{L}\p{M}\p{N}]+/u)
+      .filter((w) => w && !STOP_WORDS.has(w))
+      // "wave" and "waves" don't make titles different either
+      .map(singularize),
+  )
+}
+
+// Jaccard similarity of two word sets, 0–1; titles with no words left only match via sameTitle
+function jaccard(ta: Set<string>, tb: Set<string>): number {
+  if (!ta.size || !tb.size) return 0
+  let shared = 0
+  ta.forEach((w) => {
+    if (tb.has(w)) shared++
+  })
+  return shared / (ta.size + tb.size - shared)
+}
+
+export function sameTitle(a: string, b: string): boolean {
+  return a.trim().toLowerCase().replace(/\s+/g, ' ') === b.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/** Clusters of files whose titles are identical or near-identical. Files without a title are ignored. */
+export function findTitleCollisions(items: FileItem[]): TitleCollision[] {
+  const titled = items.filter((f) => f.title.trim())
+  const tokens = titled.map((f) => titleTokens(f.title))
+  const clusterOf = new Map<number, number[]>()
+
+  for (let i = 0; i < titled.length; i++) {
+    for (let j = i + 1; j < titled.length; j++) {
+      // cheap bound first: Jaccard can't reach the threshold when sizes differ too much
+      const small = Math.min(tokens[i].size, tokens[j].size)
+      const large = Math.max(tokens[i].size, tokens[j].size)
+      if (large && small / large < NEAR_DUPLICATE_SIMILARITY) continue
+      if (
+        !sameTitle(titled[i].title, titled[j].title) &&
+        jaccard(tokens[i], tokens[j]) < NEAR_DUPLICATE_SIMILARITY
+      ) {
+        continue
+      }
+      const a = clusterOf.get(i) || [i]
+      const b = clusterOf.get(j) || [j]
+      if (a === b) continue
+      const merged = Array.from(new Set([...a, ...b])).sort((x, y) => x - y)
+      merged.forEach((k) => clusterOf.set(k, merged))
+    }
+  }
+
+  const clusters = Array.from(new Set(clusterOf.values()))
+  return clusters
+    .sort((a, b) => a[0] - b[0])
+    .map((cluster) => ({
+      ids: cluster.map((k) => titled[k].id),
+      exact: cluster.every((k) => sameTitle(titled[k].title, titled[cluster[0]].title)),
+    }))
+}
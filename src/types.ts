@@ -0,0 +1,92 @@
+import type { ErrorKind } from './errors'
+import type { VideoInfo } from './video'
+
+export type Platform = 'adobe' | 'freepik' | 'shutterstock' | 'general' | 'vecteezy'
+export type Mode = 'metadata' | 'prompt'
+export type FileStatus = 'pending' | 'generating' | 'success' | 'failed'
+export type KeywordPolicy = 'keep' | 'split' | 'join'
+// what Generate All does with files that came with embedded metadata
+export type ImportedHandling = 'skip' | 'hint'
+// what kind of asset a file is, for keyword padding
+export type MediaKind = 'photo' | 'vector' | 'video'
+// how short keyword lists are topped up to the target count
+export type PaddingMode = 'model' | 'pool' | 'off'
+// what generation does with groups of near-duplicate files
+export type SimilarHandling = 'separate' | 'copy' | 'differentiate'
+
+// platform flags; batch defaults live in settings, FileItem.flags overrides them per file
+export interface FileFlags {
+  editorial: boolean
+  mature: boolean
+  illustration: boolean
+  aiGenerated: boolean
+  // release file names as uploaded to the portal, comma separated
+  releases: string
+}
+
+export type VersionSource = 'generated' | 'edited' | 'imported'
+
+// one earlier state of a file's metadata
+export interface MetadataVersion {
+  source: VersionSource
+  savedAt: number
+  title: string
+  keywords: string
+  description: string
+  categories?: string[]
+  prompt: string
+  shortPrompt: string
+  negativePrompt: string
+}
+
+export interface FileItem {
+  id: string
+  file: File
+  previewUrl?: string
+  // filled in after upload for video files
+  video?: VideoInfo
+  // EPS/AI: image used for preview and vision input
+  companion?: File
+  // where the companion came from: an uploaded same-name JPG or the file itself
+  previewSource?: 'companion' | 'embedded'
+  // EPS/AI uploaded without a usable preview
+  unpaired?: boolean
+  // perceptual hash of the preview image (similarity.ts)
+  phash?: string
+  // id of the first file in this file's near-duplicate group
+  similarGroup?: string
+  // the user said this file is not a near-duplicate
+  groupExcluded?: boolean
+  title: string
+  keywords: string
+  description: string
+  // marketplace category values (Adobe IDs / Shutterstock names), see categories.ts
+  categories?: string[]
+  flags?: Partial<FileFlags>
+  // model saw recognizable people / property (only asked when release hints are on)
+  releaseHints?: { people: boolean; property: boolean }
+  // earlier generated / edited / imported metadata, oldest first (versions.ts)
+  versions?: MetadataVersion[]
+  // Prompt mode output
+  prompt: string
+  shortPrompt: string
+  negativePrompt: string
+  status: FileStatus
+  // brand / trademark / spam terms removed from title or keywords
+  strippedTerms?: string[]
+  // plural / spelling / synonym variants folded into another keyword ("cats → cat")
+  mergedTerms?: string[]
+  // fields were prefilled from metadata already embedded in the file (XMP/IPTC/EXIF)
+  imported?: boolean
+  importedSources?: string[]
+  error?: string
+  errorKind?: ErrorKind
+}
+
+export type EditableField =
+  | 'title'
+  | 'keywords'
+  | 'description'
+  | 'prompt'
+  | 'shortPrompt'
+  | 'negativePrompt'
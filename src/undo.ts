@@ -0,0 +1,78 @@
+import { useRef, useState } from 'react'
+
+/** ----- Undo / redo over one state value ----- */
+
+interface UndoEntry<T> {
+  label: string
+  value: T
+}
+
+export interface UndoStack {
+  // call right before a change; changes with the same mergeKey in quick succession share one step
+  checkpoint: (label: string, mergeKey?: string) => void
+  // label of the step that was undone / redone, null when there was nothing to do
+  undo: () => string | null
+  redo: () => string | null
+  // forget every step (e.g. the list was cleared)
+  reset: () => void
+  undoLabel: string | null
+  redoLabel: string | null
+}
+
+// typing pauses shorter than this stay in the same undo step
+const MERGE_WINDOW_MS = 1500
+
+export function useUndoStack<T>(current: T, restore: (value: T) => void, limit = 100): UndoStack {
+  const currentRef = useRef(current)
+  currentRef.current = current
+  const lastMergeRef = useRef<{ key: string; at: number } | null>(null)
+  const [undoStack, setUndoStack] = useState<UndoEntry<T>[]>([])
+  const [redoStack, setRedoStack] = useState<UndoEntry<T>[]>([])
+
+  const checkpoint = (label: string, mergeKey?: string) => {
+    const now = Date.now()
+    const last = lastMergeRef.current
+    if (mergeKey && last && last.key === mergeKey && now - last.at < MERGE_WINDOW_MS) {
+      last.at = now
+      return
+    }
+    lastMergeRef.current = mergeKey ? { key: mergeKey, at: now } : null
+    setUndoStack((prev) => [...prev, { label, value: currentRef.current }].slice(-limit))
+    setRedoStack([])
+  }
+
+  const undo = () => {
+    const entry = undoStack[undoStack.length - 1]
+    if (!entry) return null
+    lastMergeRef.current = null
+    setUndoStack((prev) => prev.slice(0, -1))
+    setRedoStack((prev) => [...prev, { label: entry.label, value: currentRef.current }])
+    restore(entry.value)
+    return entry.label
+  }
+
+  const redo = () => {
+    const entry = redoStack[redoStack.length - 1]
+    if (!entry) return null
+    lastMergeRef.current = null
+    setRedoStack((prev) => prev.slice(0, -1))
+    setUndoStack((prev) => [...prev, { label: entry.label, value: currentRef.current }])
+    restore(entry.value)
+    return entry.label
+  }
+
+  const reset = () => {
+    lastMergeRef.current = null
+    setUndoStack([])
+    setRedoStack([])
+  }
+
+  return {
+    checkpoint,
+    undo,
+    redo,
+    reset,
+    undoLabel: undoStack.length ? undoStack[undoStack.length - 1].label : null,
+    redoLabel: redoStack.length ? redoStack[redoStack.length - 1].label : null,
+  }
+}
@@ -0,0 +1,201 @@
+import { CATEGORY_TAXONOMIES, isKnownCategory } from './categories'
+import { splitKeywords } from './embedMetadata'
+import { DEFAULT_FILE_FLAGS, resolveFlags } from './flags'
+import { findTitleCollisions, sameTitle } from './titles'
+import type { FileFlags, FileItem, Platform } from './types'
+
+/** ----- Per-platform metadata rules ----- */
+
+export type IssueSeverity = 'error' | 'warning'
+
+export interface ValidationIssue {
+  field: 'title' | 'keywords' | 'description' | 'category' | 'file'
+  severity: IssueSeverity
+  message: string
+}
+
+export interface PlatformRules {
+  titleMin: number
+  titleMax: number
+  keywordsMin: number
+  keywordsMax: number
+  descriptionRequired: boolean
+  descriptionMax: number
+  // characters the portal rejects in titles and keywords
+  forbiddenChars: RegExp
+  // lowercase extensions the portal accepts
+  fileTypes: string[]
+}
+
+const COMMON_FORBIDDEN = /[<>{}[\]|\\^~`@#$%*=+]/
+
+export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
+  adobe: {
+    titleMin: 5,
+    titleMax: 200,
+    keywordsMin: 5,
+    keywordsMax: 49,
+    descriptionRequired: false,
+    descriptionMax: 200,
+    forbiddenChars: COMMON_FORBIDDEN,
+    fileTypes: ['jpg', 'jpeg', 'png', 'eps', 'ai', 'mp4', 'mov'],
+  },
+  shutterstock: {
+    titleMin: 5,
+    titleMax: 200,
+    keywordsMin: 7,
+    keywordsMax: 50,
+    descriptionRequired: false,
+    descriptionMax: 200,
+    // non-ASCII text gets rejected as non-English
+    forbiddenChars: /[<>{}[\]|\\^~`@#$%*=+]|[^\x20-\x7e]/,
+    fileTypes: ['jpg', 'jpeg', 'eps', 'mp4', 'mov'],
+  },
+  freepik: {
+    titleMin: 5,
+    titleMax: 100,
+    keywordsMin: 5,
+    keywordsMax: 50,
+    descriptionRequired: false,
+    descriptionMax: 200,
+    forbiddenChars: /[<>{}[\]|\\^~`@#$%*=+;]/,
+    fileTypes: ['jpg', 'jpeg', 'png', 'svg', 'eps', 'ai', 'psd', 'mp4', 'mov'],
+  },
+  vecteezy: {
+    titleMin: 5,
+    titleMax: 200,
+    keywordsMin: 5,
+    keywordsMax: 49,
+    descriptionRequired: true,
+    descriptionMax: 200,
+    forbiddenChars: COMMON_FORBIDDEN,
+    fileTypes: ['jpg', 'jpeg', 'png', 'svg', 'eps', 'ai', 'mp4', 'mov'],
+  },
+  general: {
+    titleMin: 1,
+    titleMax: 200,
+    keywordsMin: 1,
+    keywordsMax: 100,
+    descriptionRequired: false,
+    descriptionMax: 2000,
+    forbiddenChars: /[<>]/,
+    fileTypes: [],
+  },
+}
+
+/** Issues for one file against one platform; empty when the row is fine. */
+export function validateItem(
+  item: FileItem,
+  platform: Platform,
+  flagDefaults: FileFlags = DEFAULT_FILE_FLAGS,
+): ValidationIssue[] {
+  const rules = PLATFORM_RULES[platform]
+  const issues: ValidationIssue[] = []
+  const error = (field: ValidationIssue['field'], message: string) =>
+    issues.push({ field, severity: 'error', message })
+  const warning = (field: ValidationIssue['field'], message: string) =>
+    issues.push({ field, severity: 'warning', message })
+
+  const ext = (item.file.name.split('.').pop() || '').toLowerCase()
+  if (rules.fileTypes.length && !rules.fileTypes.includes(ext)) {
+    error('file', `.${ext} files are not accepted on this platform`)
+  }
+
+  const title = item.title.trim()
+  if (!title) {
+    error('title', 'Title is required')
+  } else {
+    if (title.length < rules.titleMin) error('title', `Title shorter than ${rules.titleMin} characters`)
+    if (title.length > rules.titleMax) {
+      error('title', `Title is ${title.length} characters (max ${rules.titleMax})`)
+    }
+    const bad = title.match(rules.forbiddenChars)
+    if (bad) error('title', `Title contains forbidden character "${bad[0]}"`)
+  }
+
+  const keywords = splitKeywords(item.keywords)
+  if (!keywords.length) {
+    error('keywords', 'Keywords are required')
+  } else {
+    if (keywords.length < rules.keywordsMin) {
+      error('keywords', `${keywords.length} keywords (min ${rules.keywordsMin})`)
+    }
+    if (keywords.length > rules.keywordsMax) {
+      error('keywords', `${keywords.length} keywords (max ${rules.keywordsMax})`)
+    }
+    const badKeyword = keywords.find((k) => rules.forbiddenChars.test(k))
+    if (badKeyword) error('keywords', `Keyword "${badKeyword}" contains forbidden characters`)
+  }
+
+  const description = item.description.trim()
+  if (!description) {
+    if (rules.descriptionRequired) error('description', 'Description is required')
+    else warning('description', 'Description is empty')
+  } else if (description.length > rules.descriptionMax) {
+    error('description', `Description is ${description.length} characters (max ${rules.descriptionMax})`)
+  }
+
+  const taxonomy = CATEGORY_TAXONOMIES[platform]
+  if (taxonomy) {
+    const categories = item.categories || []
+    const unknown = categories.find((c) => !isKnownCategory(c, platform))
+    if (unknown) error('category', `Category "${unknown}" is not in this platform's list`)
+    if (categories.length > taxonomy.max) {
+      error('category', `${categories.length} categories (max ${taxonomy.max})`)
+    }
+    if (!categories.length) {
+      if (taxonomy.required) error('category', 'Category is required')
+      else warning('category', 'No category')
+    }
+  }
+
+  const flags = resolveFlags(item, flagDefaults)
+  if (flags.aiGenerated && platform === 'shutterstock') {
+    error('file', 'Shutterstock does not accept AI-generated content')
+  }
+  if (flags.aiGenerated && platform === 'adobe') {
+    warning('file', 'Tick "Created using generative AI tools" in the Adobe portal (no CSV column)')
+  }
+  if (item.releaseHints && platform !== 'general' && !flags.editorial && !flags.releases.trim()) {
+    if (item.releaseHints.people) {
+      warning('file', 'People visible: attach a model release or mark as editorial')
+    }
+    if (item.releaseHints.property) {
+      warning('file', 'Recognizable property: attach a property release or mark as editorial')
+    }
+  }
+
+  return issues
+}
+
+/** Issues that need the whole batch: titles shared with other files (exact → error, near → warning). */
+export function validateBatch(items: FileItem[]): Map<string, ValidationIssue[]> {
+  const byId = new Map(items.map((f) => [f.id, f]))
+  const issues = new Map<string, ValidationIssue[]>()
+
+  findTitleCollisions(items).forEach((collision) => {
+    collision.ids.forEach((id) => {
+      const item = byId.get(id)!
+      const others = collision.ids.filter((other) => other !== id).map((other) => byId.get(other)!)
+      const exact = others.filter((o) => sameTitle(o.title, item.title))
+      const issue: ValidationIssue = exact.length
+        ? {
+            field: 'title',
+            severity: 'error',
+            message: `Same title as ${exact.map((o) => o.file.name).join(', ')}`,
+          }
+        : {
+            field: 'title',
+            severity: 'warning',
+            message: `Title nearly the same as ${others.map((o) => o.file.name).join(', ')}`,
+          }
+      issues.set(id, [issue])
+    })
+  })
+
+  return issues
+}
+
+export function hasErrors(issues: ValidationIssue[]): boolean {
+  return issues.some((i) => i.severity === 'error')
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { extractEmbeddedPreview } from './vectors'
+
+const latin1 = (text: string) => Uint8Array.from(text, (c) => c.charCodeAt(0))
+
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0))
+  let pos = 0
+  parts.forEach((p) => {
+    out.set(p, pos)
+    pos += p.length
+  })
+  return out
+}
+
+// DOS EPS: binary header pointing at a TIFF preview, followed by the PostScript
+function dosEps(tiff: Uint8Array): File {
+  const header = new DataView(new ArrayBuffer(30))
+  header.setUint32(0, 0xc6d3d0c5, true)
+  header.setUint32(4, 30 + tiff.length, true)
+  header.setUint32(20, 30, true)
+  header.setUint32(24, tiff.length, true)
+  const ps = latin1('%!PS-Adobe-3.0 EPSF-3.0\n%%EOF\n')
+  return new File([concat(new Uint8Array(header.buffer), tiff, ps)], 'art.eps')
+}
+
+describe('extractEmbeddedPreview', () => {
+  it('reads a JPEG page thumbnail from a PDF-compatible AI file', async () => {
+    const jpeg = Uint8Array.from([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3, 0xff, 0xd9])
+    const pdf = concat(
+      latin1('%PDF-1.6\n1 0 obj\n<< /Type /Page /Thumb 7 0 R >>\nendobj\n'),
+      latin1('7 0 obj\n<< /Width 4 /Height 3 /BitsPerComponent 8 /ColorSpace /DeviceRGB '),
+      latin1(`/Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`),
+      jpeg,
+      latin1('\nendstream\nendobj\n%%EOF\n'),
+    )
+    const preview = await extractEmbeddedPreview(new File([pdf], 'art.ai'))
+    expect(preview?.type).toBe('image/jpeg')
+    expect(new Uint8Array(await preview!.arrayBuffer())).toEqual(jpeg)
+  })
+
+  it('ignores an EPSI preview whose header claims huge dimensions', async () => {
+    const eps = '%!PS-Adobe-3.0 EPSF-3.0\n%%BeginPreview: 100000 100000 8 1\n%ff\n%%EndPreview\n'
+    expect(await extractEmbeddedPreview(new File([eps], 'art.eps'))).toBeNull()
+  })
+
+  it('ignores a TIFF preview whose header claims huge dimensions', async () => {
+    const tiff = new DataView(new ArrayBuffer(8 + 2 + 3 * 12 + 4))
+    tiff.setUint16(0, 0x4949)
+    tiff.setUint16(2, 42, true)
+    tiff.setUint32(4, 8, true)
+    tiff.setUint16(8, 3, true)
+    // ImageWidth, ImageLength, StripOffsets as LONG values
+    ;[
+      [256, 100000],
+      [257, 100000],
+      [273, 8],
+    ].forEach(([tag, value], i) => {
+      const entry = 10 + i * 12
+      tiff.setUint16(entry, tag, true)
+      tiff.setUint16(entry + 2, 4, true)
+      tiff.setUint32(entry + 4, 1, true)
+      tiff.setUint32(entry + 8, value, true)
+    })
+    expect(await extractEmbeddedPreview(dosEps(new Uint8Array(tiff.buffer)))).toBeNull()
+  })
+})
@@ -0,0 +1,481 @@
+import type { FileItem } from './types'
+
+/** ----- EPS/AI vectors and their same-name raster previews ----- */
+
+export function isVectorFile(name: string): boolean {
+  return /\.(svg|eps|ai)$/i.test(name)
+}
+
+export function isEpsOrAi(name: string): boolean {
+  return /\.(eps|ai)$/i.test(name)
+}
+
+function isPreviewRaster(name: string): boolean {
+  return /\.(jpe?g|png)$/i.test(name)
+}
+
+function baseName(name: string): string {
+  return name.replace(/\.[^.]+$/, '').toLowerCase()
+}
+
+/**
+ * Attach `design-01.jpg` to `design-01.eps` / `design-01.ai` as the companion
+ * preview and drop the raster's own row. An uploaded raster replaces an
+ * embedded preview. Vectors with no preview at all are flagged `unpaired`.
+ * Safe to run again on the whole list after every upload.
+ */
+export function pairVectorPreviews(items: FileItem[]): FileItem[] {
+  const rasters = new Map<string, FileItem>()
+  items.forEach((item) => {
+    if (isPreviewRaster(item.file.name)) {
+      const key = baseName(item.file.name)
+      // prefer JPG over PNG when both exist
+      if (!rasters.has(key) || /\.jpe?g$/i.test(item.file.name)) rasters.set(key, item)
+    }
+  })
+
+  const consumed = new Set<string>()
+  const paired = items.map((item) => {
+    if (!isEpsOrAi(item.file.name) || item.previewSource === 'companion') return item
+
+    const raster = rasters.get(baseName(item.file.name))
+    if (!raster) return item.companion ? item : { ...item, unpaired: true }
+
+    consumed.add(raster.id)
+    const next: FileItem = {
+      ...item,
+      companion: raster.file,
+      previewSource: 'companion',
+      previewUrl: raster.previewUrl,
+      unpaired: false,
+    }
+    // keep metadata already generated/edited on the raster row
+    if (!item.title && !item.keywords && raster.status === 'success') {
+      next.title = raster.title
+      next.keywords = raster.keywords
+      next.description = raster.description
+      next.status = raster.status
+    }
+    return next
+  })
+
+  return paired.filter((item) => !consumed.has(item.id))
+}
+
+export function hasPreviewRaster(vectorName: string, items: FileItem[]): boolean {
+  const key = baseName(vectorName)
+  return items.some((item) => isPreviewRaster(item.file.name) && baseName(item.file.name) === key)
+}
+
+/** ----- Embedded previews inside EPS / AI ----- */
+
+interface PixelImage {
+  width: number
+  height: number
+  rgba: Uint8ClampedArray
+}
+
+// head of the file is enough for the XMP packet and EPSI preview
+const SCAN_BYTES = 4 * 1024 * 1024
+// larger sizes in a preview header are corrupt (or hostile): 4096² RGBA is already 64 MB
+const MAX_PREVIEW_SIDE = 4096
+
+function isPreviewSize(width: number, height: number): boolean {
+  return width > 0 && height > 0 && width <= MAX_PREVIEW_SIDE && height <= MAX_PREVIEW_SIDE
+}
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  let out = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    out += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)))
+  }
+  return out
+}
+
+// Illustrator writes a base64 JPEG thumbnail into the XMP packet (AI and EPS)
+function findXmpThumbnail(text: string): Blob | null {
+  const match = text.match(/<xmpGImg:image>([\s\S]*?)<\/xmpGImg:image>/)
+  if (!match) return null
+  const base64 = match[1].replace(/&#xA;|&#10;|\s/g, '')
+  try {
+    const binary = atob(base64)
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+    return new Blob([bytes], { type: 'image/jpeg' })
+  } catch {
+    return null
+  }
+}
+
+// EPSI: %%BeginPreview: w h depth lines, then hex rows prefixed with "%", 0 = white
+function decodeEpsiPreview(text: string): PixelImage | null {
+  const start = text.search(/%%BeginPreview:/)
+  if (start === -1) return null
+  const end = text.indexOf('%%EndPreview', start)
+  if (end === -1) return null
+
+  const block = text.slice(start, end)
+  const head = block.match(/%%BeginPreview:\s*(\d+)\s+(\d+)\s+(\d+)/)
+  if (!head) return null
+  const width = Number(head[1])
+  const height = Number(head[2])
+  const depth = Number(head[3])
+  if (!isPreviewSize(width, height) || ![1, 2, 4, 8].includes(depth)) return null
+
+  const hex = block
+    .split(/\r?\n|\r/)
+    .slice(1)
+    .map((line) => line.replace(/^%/, ''))
+    .join('')
+    .replace(/[^0-9a-fA-F]/g, '')
+
+  const rowBytes = Math.ceil((width * depth) / 8)
+  const rgba = new Uint8ClampedArray(width * height * 4)
+  const max = (1 << depth) - 1
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bit = x * depth
+      const byteIndex = y * rowBytes + (bit >> 3)
+      const byte = parseInt(hex.substr(byteIndex * 2, 2), 16) || 0
+      const value = (byte >> (8 - depth - (bit & 7))) & max
+      const gray = 255 - Math.round((value / max) * 255)
+      const o = (y * width + x) * 4
+      rgba[o] = rgba[o + 1] = rgba[o + 2] = gray
+      rgba[o + 3] = 255
+    }
+  }
+
+  return { width, height, rgba }
+}
+
+function unpackBits(src: Uint8Array): Uint8Array {
+  const out: number[] = []
+  let i = 0
+  while (i < src.length) {
+    const n = (src[i++] << 24) >> 24
+    if (n >= 0) {
+      for (let k = 0; k <= n && i < src.length; k++) out.push(src[i++])
+    } else if (n !== -128) {
+      const v = src[i++]
+      for (let k = 0; k < 1 - n; k++) out.push(v)
+    }
+  }
+  return Uint8Array.from(out)
+}
+
+function lzwDecode(src: Uint8Array): Uint8Array {
+  const out: number[] = []
+  let table: number[][] = []
+  const reset = () => {
+    table = []
+    for (let i = 0; i < 256; i++) table.push([i])
+    table.push([], [])
+  }
+  reset()
+
+  let bitPos = 0
+  let codeLen = 9
+  let prev: number[] | null = null
+  const readCode = () => {
+    let code = 0
+    for (let i = 0; i < codeLen; i++) {
+      const byte = src[(bitPos + i) >> 3]
+      if (byte === undefined) return 257
+      code = (code << 1) | ((byte >> (7 - ((bitPos + i) & 7))) & 1)
+    }
+    bitPos += codeLen
+    return code
+  }
+
+  for (;;) {
+    const code = readCode()
+    if (code === 257) break
+    if (code === 256) {
+      reset()
+      codeLen = 9
+      prev = null
+      continue
+    }
+    let entry: number[]
+    if (code < table.length) {
+      entry = table[code]
+      if (prev) table.push([...prev, entry[0]])
+    } else if (prev) {
+      entry = [...prev, prev[0]]
+      table.push(entry)
+    } else {
+      break
+    }
+    for (const b of entry) out.push(b)
+    prev = entry
+    // TIFF LZW switches width one code early
+    if (table.length + 1 >= 1 << codeLen && codeLen < 12) codeLen++
+  }
+  return Uint8Array.from(out)
+}
+
+// Minimal baseline TIFF reader for EPS previews: gray/palette/RGB, none/LZW/PackBits
+function decodeTiff(buffer: ArrayBuffer): PixelImage | null {
+  const view = new DataView(buffer)
+  if (view.byteLength < 8) return null
+  const order = view.getUint16(0)
+  if (order !== 0x4949 && order !== 0x4d4d) return null
+  const le = order === 0x4949
+  const u16 = (o: number) => view.getUint16(o, le)
+  const u32 = (o: number) => view.getUint32(o, le)
+
+  const tags = new Map<number, number[]>()
+  const ifd = u32(4)
+  const count = u16(ifd)
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12
+    const tag = u16(entry)
+    const type = u16(entry + 2)
+    const n = u32(entry + 4)
+    const size = type === 3 ? 2 : type === 4 ? 4 : 1
+    const base = n * size > 4 ? u32(entry + 8) : entry + 8
+    const values: number[] = []
+    for (let k = 0; k < n; k++) {
+      const o = base + k * size
+      if (o + size > view.byteLength) break
+      values.push(size === 2 ? u16(o) : size === 4 ? u32(o) : view.getUint8(o))
+    }
+    tags.set(tag, values)
+  }
+
+  const one = (tag: number, fallback: number) => (tags.get(tag) || [fallback])[0]
+  const width = one(256, 0)
+  const height = one(257, 0)
+  const bits = one(258, 1)
+  const compression = one(259, 1)
+  const photometric = one(262, 1)
+  const samples = one(277, 1)
+  const offsets = tags.get(273) || []
+  const counts = tags.get(279) || []
+  const colorMap = tags.get(320)
+  if (!isPreviewSize(width, height) || !offsets.length) return null
+  if (![1, 5, 32773].includes(compression)) return null
+
+  const chunks: Uint8Array[] = offsets.map((offset, i) => {
+    const raw = new Uint8Array(buffer, offset, Math.min(counts[i] || 0, buffer.byteLength - offset))
+    if (compression === 5) return lzwDecode(raw)
+    if (compression === 32773) return unpackBits(raw)
+    return raw
+  })
+  const total = chunks.reduce((sum, c) => sum + c.length, 0)
+  const data = new Uint8Array(total)
+  let pos = 0
+  chunks.forEach((c) => {
+    data.set(c, pos)
+    pos += c.length
+  })
+
+  const rowBytes = Math.ceil((width * bits * samples) / 8)
+  const max = (1 << bits) - 1
+  const rgba = new Uint8ClampedArray(width * height * 4)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4
+      rgba[o + 3] = 255
+      if (photometric === 2 && bits === 8) {
+        const p = y * rowBytes + x * samples
+        rgba[o] = data[p]
+        rgba[o + 1] = data[p + 1]
+        rgba[o + 2] = data[p + 2]
+        continue
+      }
+      const bit = x * bits
+      const byte = data[y * rowBytes + (bit >> 3)] || 0
+      const value = bits === 8 ? byte : (byte >> (8 - bits - (bit & 7))) & max
+      if (photometric === 3 && colorMap) {
+        const n = 1 << bits
+        rgba[o] = colorMap[value] >> 8
+        rgba[o + 1] = colorMap[n + value] >> 8
+        rgba[o + 2] = colorMap[2 * n + value] >> 8
+      } else {
+        const gray = Math.round((value / max) * 255)
+        rgba[o] = rgba[o + 1] = rgba[o + 2] = photometric === 0 ? 255 - gray : gray
+      }
+    }
+  }
+
+  return { width, height, rgba }
+}
+
+// inflated zlib data, or null when it is corrupt or longer than `limit`
+async function inflate(data: Uint8Array, limit: number): Promise<Uint8Array | null> {
+  const chunks: Uint8Array[] = []
+  let total = 0
+  try {
+    const reader = new Blob([new Uint8Array(data)])
+      .stream()
+      .pipeThrough(new DecompressionStream('deflate'))
+      .getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      total += value.length
+      if (total > limit) {
+        await reader.cancel()
+        return null
+      }
+      chunks.push(value)
+    }
+  } catch {
+    return null
+  }
+  const out = new Uint8Array(total)
+  let pos = 0
+  chunks.forEach((c) => {
+    out.set(c, pos)
+    pos += c.length
+  })
+  return out
+}
+
+// 8-bit DeviceRGB, DeviceGray or Indexed-over-DeviceRGB (hex lookup) samples
+function decodePdfImage(
+  dict: string,
+  width: number,
+  height: number,
+  data: Uint8Array,
+): PixelImage | null {
+  const indexed = dict.match(
+    /\/ColorSpace\s*\[\s*\/Indexed\s*\/DeviceRGB\s+\d+\s*<([0-9a-fA-F\s]*)>/,
+  )
+  const components = indexed
+    ? 1
+    : /\/ColorSpace\s*\/DeviceRGB/.test(dict)
+      ? 3
+      : /\/ColorSpace\s*\/DeviceGray/.test(dict)
+        ? 1
+        : 0
+  if (!components || data.length < width * height * components) return null
+  const paletteHex = indexed ? indexed[1].replace(/\s/g, '') : ''
+  const palette = Uint8Array.from({ length: paletteHex.length >> 1 }, (_, i) =>
+    parseInt(paletteHex.substr(i * 2, 2), 16),
+  )
+
+  const rgba = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    const o = i * 4
+    const p = i * components
+    if (indexed) {
+      const c = data[p] * 3
+      rgba[o] = palette[c]
+      rgba[o + 1] = palette[c + 1]
+      rgba[o + 2] = palette[c + 2]
+    } else if (components === 3) {
+      rgba[o] = data[p]
+      rgba[o + 1] = data[p + 1]
+      rgba[o + 2] = data[p + 2]
+    } else {
+      rgba[o] = rgba[o + 1] = rgba[o + 2] = data[p]
+    }
+    rgba[o + 3] = 255
+  }
+  return { width, height, rgba }
+}
+
+// PDF-compatible AI: a page's /Thumb names an image XObject, JPEG (DCT) or Flate-encoded
+// samples. Thumbnails inside compressed object streams, or with predictors, are not read.
+async function findPdfThumbnail(bytes: Uint8Array): Promise<Blob | null> {
+  const text = bytesToLatin1(bytes)
+  const ref = text.match(/\/Thumb\s+(\d+)\s+(\d+)\s+R/)
+  if (!ref) return null
+  const objStart = text.search(new RegExp(`(^|\\s)${ref[1]}\\s+${ref[2]}\\s+obj\\b`))
+  if (objStart === -1) return null
+  const streamAt = text.indexOf('stream', objStart)
+  if (streamAt === -1) return null
+
+  const dict = text.slice(objStart, streamAt)
+  const number = (key: string) => Number((dict.match(new RegExp(`/${key}\\s+(\\d+)`)) || [])[1])
+  const width = number('Width')
+  const height = number('Height')
+  if (!isPreviewSize(width, height) || number('BitsPerComponent') !== 8) return null
+  const filter = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)
+  const filters = filter ? filter[1].match(/\/\w+/g) || [] : []
+  if (filters.length !== 1 || /\/DecodeParms/.test(dict)) return null
+
+  // data starts after the end-of-line that follows "stream"; /Length may be an indirect ref
+  let dataStart = streamAt + 'stream'.length
+  if (text[dataStart] === '\r') dataStart++
+  if (text[dataStart] === '\n') dataStart++
+  const length = dict.match(/\/Length\s+(\d+)\b(?!\s+\d+\s+R)/)
+  const dataEnd = length ? dataStart + Number(length[1]) : text.indexOf('endstream', dataStart)
+  if (dataEnd === -1 || dataEnd > bytes.length) return null
+  const data = bytes.subarray(dataStart, dataEnd)
+
+  if (filters[0] === '/DCTDecode') return new Blob([new Uint8Array(data)], { type: 'image/jpeg' })
+  if (filters[0] !== '/FlateDecode') return null
+  const samples = await inflate(data, width * height * 3)
+  const image = samples && decodePdfImage(dict, width, height, samples)
+  return image ? pixelsToJpeg(image) : null
+}
+
+async function pixelsToJpeg(image: PixelImage): Promise<Blob | null> {
+  const canvas = document.createElement('canvas')
+  canvas.width = image.width
+  canvas.height = image.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+  const imageData = ctx.createImageData(image.width, image.height)
+  imageData.data.set(image.rgba)
+  ctx.putImageData(imageData, 0, 0)
+  return new Promise((resolve) => canvas.toBlob((b) => resolve(b), 'image/jpeg', 0.9))
+}
+
+/**
+ * Preview stored inside an EPS/AI file, as a JPEG blob. Tries, in order:
+ * the XMP thumbnail Illustrator writes, the TIFF section of a DOS-binary EPS
+ * header, an EPSI hex preview, and the page thumbnail (/Thumb) of a
+ * PDF-compatible AI file. WMF previews are not decoded.
+ */
+export async function extractEmbeddedPreview(file: File): Promise<Blob | null> {
+  const headBuffer = await file.slice(0, SCAN_BYTES).arrayBuffer()
+  const head = new Uint8Array(headBuffer)
+
+  // DOS EPS binary header: C5 D0 D3 C6, then PS/WMF/TIFF offsets and lengths
+  const isDosEps = head[0] === 0xc5 && head[1] === 0xd0 && head[2] === 0xd3 && head[3] === 0xc6
+  let postscriptStart = 0
+  let tiffImage: PixelImage | null = null
+
+  if (isDosEps && head.length >= 30) {
+    const view = new DataView(headBuffer)
+    postscriptStart = view.getUint32(4, true)
+    const tiffOffset = view.getUint32(20, true)
+    const tiffLength = view.getUint32(24, true)
+    if (tiffOffset && tiffLength) {
+      const tiffBuffer = await file.slice(tiffOffset, tiffOffset + tiffLength).arrayBuffer()
+      try {
+        tiffImage = decodeTiff(tiffBuffer)
+      } catch {
+        tiffImage = null
+      }
+    }
+  }
+
+  const text = bytesToLatin1(head.subarray(postscriptStart))
+
+  const xmpThumb = findXmpThumbnail(text)
+  if (xmpThumb) return xmpThumb
+
+  if (tiffImage) return pixelsToJpeg(tiffImage)
+
+  const epsi = decodeEpsiPreview(text)
+  if (epsi) return pixelsToJpeg(epsi)
+
+  if (text.startsWith('%PDF-')) {
+    if (file.size <= SCAN_BYTES) return findPdfThumbnail(head)
+    // page objects are often written after the artwork: search the end of the file too
+    const tail = new Uint8Array(await file.slice(file.size - SCAN_BYTES).arrayBuffer())
+    const both = new Uint8Array(head.length + tail.length)
+    both.set(head)
+    both.set(tail, head.length)
+    return findPdfThumbnail(both)
+  }
+
+  return null
+}
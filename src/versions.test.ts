@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import type { FileItem } from './types'
+import { applyGenerated, previousVersions, recordVersion, revertToVersion } from './versions'
+
+function item(fields: Partial<FileItem>): FileItem {
+  return {
+    id: 'a',
+    file: new File([''], 'a.jpg'),
+    title: '',
+    keywords: '',
+    description: '',
+    prompt: '',
+    shortPrompt: '',
+    negativePrompt: '',
+    status: 'success',
+    ...fields,
+  }
+}
+
+describe('versions', () => {
+  it('brings back edited text after a regenerate', () => {
+    const generated = applyGenerated(item({}), { title: 'Red apple', keywords: 'apple, red' })
+    // the user types, then the edit session ends
+    const typed = { ...generated, title: 'Red apple on a wooden table' }
+    const edited = { ...typed, versions: recordVersion(typed, 'edited') }
+    const regenerated = applyGenerated(edited, { title: 'Apple', keywords: 'apple' })
+
+    const version = previousVersions(regenerated).find((v) => v.source === 'edited')
+    expect(version?.title).toBe('Red apple on a wooden table')
+    const reverted = revertToVersion(regenerated, version!)
+    expect(reverted.title).toBe('Red apple on a wooden table')
+    expect(reverted.keywords).toBe('apple, red')
+  })
+
+  it('does not repeat a version whose content is unchanged', () => {
+    const generated = applyGenerated(item({}), { title: 'Red apple' })
+    expect(recordVersion(generated, 'edited')).toBe(generated.versions)
+    expect(generated.versions!.map((v) => v.source)).toEqual(['generated'])
+  })
+})
@@ -0,0 +1,81 @@
+import type { FileItem, MetadataVersion, VersionSource } from './types'
+
+/** ----- Per-file metadata versions ("revert to previous version") ----- */
+
+const MAX_VERSIONS = 10
+
+function snapshot(item: FileItem, source: VersionSource): MetadataVersion {
+  return {
+    source,
+    savedAt: Date.now(),
+    title: item.title,
+    keywords: item.keywords,
+    description: item.description,
+    categories: item.categories,
+    prompt: item.prompt,
+    shortPrompt: item.shortPrompt,
+    negativePrompt: item.negativePrompt,
+  }
+}
+
+function sameContent(item: FileItem | MetadataVersion, version: MetadataVersion): boolean {
+  return (
+    item.title === version.title &&
+    item.keywords === version.keywords &&
+    item.description === version.description &&
+    (item.categories || []).join(',') === (version.categories || []).join(',') &&
+    item.prompt === version.prompt &&
+    item.shortPrompt === version.shortPrompt &&
+    item.negativePrompt === version.negativePrompt
+  )
+}
+
+function isEmpty(item: FileItem): boolean {
+  return ![
+    item.title,
+    item.keywords,
+    item.description,
+    item.prompt,
+    item.shortPrompt,
+    item.negativePrompt,
+  ].some((v) => v.trim())
+}
+
+/**
+ * The item's versions with its current metadata appended, unless that is empty or
+ * already the latest version. Without a source, content is "imported" until the file
+ * has a version of its own, "edited" after that.
+ */
+export function recordVersion(item: FileItem, source?: VersionSource): MetadataVersion[] {
+  const versions = item.versions || []
+  const last = versions[versions.length - 1]
+  if (isEmpty(item) || (last && sameContent(item, last))) return versions
+  const resolved = source || (item.imported && !versions.length ? 'imported' : 'edited')
+  return [...versions, snapshot(item, resolved)].slice(-MAX_VERSIONS)
+}
+
+/** Versions that differ from what the row shows now, newest first. */
+export function previousVersions(item: FileItem): MetadataVersion[] {
+  return (item.versions || []).filter((v) => !sameContent(item, v)).reverse()
+}
+
+/** Current metadata is kept as a version, then the fields are replaced by `version`. */
+export function revertToVersion(item: FileItem, version: MetadataVersion): FileItem {
+  return {
+    ...item,
+    title: version.title,
+    keywords: version.keywords,
+    description: version.description,
+    categories: version.categories,
+    prompt: version.prompt,
+    shortPrompt: version.shortPrompt,
+    negativePrompt: version.negativePrompt,
+    versions: recordVersion(item),
+  }
+}
+
+// generated fields replace the current ones; old and new both go to the version list
+export function applyGenerated(item: FileItem, partial: Partial<FileItem>): FileItem {
+  const next: FileItem = { ...item, ...partial, imported: false, versions: recordVersion(item) }
+  return { ...next, versions: recordVersion(next, 'generated') }
+}
@@ -0,0 +1,145 @@
+/** ----- Video helpers: metadata, poster frame, keyframes ----- */
+
+export interface VideoInfo {
+  duration: number
+  width: number
+  height: number
+  frameRate?: number
+}
+
+export function isVideoFile(file: File): boolean {
+  return file.type.startsWith('video/') || /\.(mp4|mov|webm|m4v|ogv)$/i.test(file.name)
+}
+
+async function loadVideo(file: File): Promise<{ video: HTMLVideoElement; url: string }> {
+  const url = URL.createObjectURL(file)
+  const video = document.createElement('video')
+  video.preload = 'auto'
+  video.muted = true
+  video.playsInline = true
+
+  await new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve()
+    video.onerror = () => reject(new Error(`Failed to decode video ${file.name}`))
+    video.src = url
+  })
+
+  return { video, url }
+}
+
+function seekTo(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onSeeked = () => {
+      video.removeEventListener('seeked', onSeeked)
+      resolve()
+    }
+    video.addEventListener('seeked', onSeeked)
+    video.onerror = () => reject(new Error('Failed to seek video'))
+    video.currentTime = time
+  })
+}
+
+// current frame → canvas, longest side capped at maxSize
+function drawFrame(video: HTMLVideoElement, maxSize: number): HTMLCanvasElement {
+  const scale = Math.min(1, maxSize / Math.max(video.videoWidth || 1, video.videoHeight || 1))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round((video.videoWidth || maxSize) * scale))
+  canvas.height = Math.max(1, Math.round((video.videoHeight || maxSize) * scale))
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Failed to get canvas context')
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+  return canvas
+}
+
+// Browsers don't expose fps, so play a few frames and measure mediaTime steps.
+async function estimateFrameRate(video: HTMLVideoElement): Promise<number | undefined> {
+  if (!('requestVideoFrameCallback' in video)) return undefined
+
+  const times: number[] = []
+  const done = new Promise<void>((resolve) => {
+    const onFrame = (_now: number, meta: { mediaTime: number }) => {
+      times.push(meta.mediaTime)
+      if (times.length >= 8) {
+        resolve()
+        return
+      }
+      video.requestVideoFrameCallback(onFrame)
+    }
+    video.requestVideoFrameCallback(onFrame)
+    setTimeout(resolve, 1500)
+  })
+
+  try {
+    await video.play()
+    await done
+  } catch {
+    return undefined
+  } finally {
+    video.pause()
+  }
+
+  const deltas: number[] = []
+  for (let i = 1; i < times.length; i++) {
+    const d = times[i] - times[i - 1]
+    if (d > 0) deltas.push(d)
+  }
+  if (!deltas.length) return undefined
+  const minDelta = Math.min(...deltas)
+  return Math.round((1 / minDelta) * 100) / 100
+}
+
+/** Duration, resolution, frame rate and a JPEG poster frame (10% into the clip). */
+export async function readVideoInfo(file: File): Promise<{ info: VideoInfo; poster: Blob | null }> {
+  const { video, url } = await loadVideo(file)
+  try {
+    const info: VideoInfo = {
+      duration: Number.isFinite(video.duration) ? video.duration : 0,
+      width: video.videoWidth,
+      height: video.videoHeight,
+    }
+    info.frameRate = await estimateFrameRate(video)
+
+    await seekTo(video, Math.min(info.duration * 0.1, 1))
+    const canvas = drawFrame(video, 320)
+    const poster: Blob | null = await new Promise((resolve) =>
+      canvas.toBlob((b) => resolve(b), 'image/jpeg', 0.8),
+    )
+
+    return { info, poster }
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/** Evenly spaced keyframes as base64 JPEG, skipping the very first and last frames. */
+export async function extractVideoKeyframes(
+  file: File,
+  count = 4,
+  maxSize = 768,
+): Promise<string[]> {
+  const { video, url } = await loadVideo(file)
+  try {
+    const duration = Number.isFinite(video.duration) ? video.duration : 0
+    const frames: string[] = []
+
+    for (let i = 0; i < count; i++) {
+      const time = duration ? (duration * (i + 1)) / (count + 1) : 0
+      await seekTo(video, time)
+      const dataUrl = drawFrame(video, maxSize).toDataURL('image/jpeg', 0.85)
+      frames.push(dataUrl.split(',')[1] || '')
+      if (!duration) break
+    }
+
+    return frames.filter(Boolean)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+export function formatVideoInfo(info: VideoInfo): string {
+  const secs = Math.round(info.duration)
+  const mm = Math.floor(secs / 60)
+  const ss = String(secs % 60).padStart(2, '0')
+  const fps = info.frameRate ? ` · ${Math.round(info.frameRate)} fps` : ''
+  return `${mm}:${ss} · ${info.width}×${info.height}${fps}`
+}